@@ -1,19 +1,46 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef, memo } from 'react';
-import { Asset, AssetCategory, CategoryColors, HistoryPoint, Budget, Transaction } from './types';
-import { Icons } from './constants';
+import { Asset, AssetCategory, CategoryColors, HistoryPoint, Budget, Transaction, RolloverMode, CachedAIInsight, LLMSettings, LLMProviderKind, PendingEntry, ExchangeRate, SavingsGoal, RecurringRule, RecurringOccurrence, Transfer, ChartAnnotation, AuditEntry, AuditSource, FinanceState, SyncMeta, SyncSettings } from './types';
+import { Icons, MASKED_AMOUNT } from './constants';
 import AssetCard from './components/AssetCard';
 import BudgetCard from './components/BudgetCard';
 import AddAssetModal from './components/AddAssetModal';
+import BudgetHistoryModal from './components/BudgetHistoryModal';
+import AIInsightPanel from './components/AIInsightPanel';
+import QuickEntryBar from './components/QuickEntryBar';
+import CsvImportWizard from './components/CsvImportWizard';
+import HoldingPanel from './components/HoldingPanel';
+import LoanSchedulePanel from './components/LoanSchedulePanel';
+import SavingsGoals from './components/SavingsGoals';
+import RecurringRules from './components/RecurringRules';
+import TransferModal from './components/TransferModal';
+import NetWorthChart from './components/NetWorthChart';
+import AuditLogPanel from './components/AuditLogPanel';
+import SyncPanel, { SyncStatus } from './components/SyncPanel';
+import SecurityPanel from './components/SecurityPanel';
+import { createInsightService, createEntryParser, InsightService } from './services/geminiService';
+import { parseQuickEntry } from './services/quickEntryService';
+import { migrateBudgets, createBudgetId, addTransaction, addTransactions, updateTransaction, deleteTransaction, moveTransaction, setSpentAmount, formatTransactionDate, toTransactionTimestamp } from './services/ledgerService';
+import { DEFAULT_LLM_SETTINGS, DEFAULT_MODELS, DEFAULT_OPENAI_ENDPOINT } from './services/llmProvider';
+import { TOTAL_BUDGET_CATEGORY, getMonthKey, getRecentMonths, rolloverBudgets, syncTotalBudget } from './services/budgetService';
+import { BASE_CURRENCY, CURRENCIES, convertAssets, currencySymbol, formatMoney, getMissingCurrencies, parseRateCSV, upsertRates } from './services/fxService';
+import { withHoldingValue, applyNavSeries } from './services/holdingService';
+import { NavSeries, readNavFile } from './services/navImportService';
+import { recordLoanPayment, undoLoanPayment } from './services/loanService';
+import { getUpcomingPayments } from './services/creditCardService';
+import { mergeHistoryPoints } from './services/snapshotService';
+import { collectDueOccurrences, applyOccurrencesToBudgets, applyOccurrencesToAssets } from './services/recurringService';
+import { applyTransfer, groupTransfersByDate } from './services/transferService';
+import { buildNetWorthSeries } from './services/historyService';
+import { createBackup, parseBackup, mergeBackup, replaceBackup, BackupRestoreMode } from './services/backupService';
+import { FinanceRepository } from './services/storageService';
+import { MAX_UNDO_STEPS, MERGE_WINDOW_MS, SOURCE_LABELS, UndoStep, appendAuditEntry, createAuditEntry, diffFinanceState, mergeUndoSteps } from './services/auditService';
+import { applyAppTheme, onServiceWorkerUpdate, scheduleReminders, showNotification } from './services/pwaService';
+import { decryptBackupText, encryptBackupText, isEncryptedBackup, isEncryptionSupported } from './services/cryptoService';
+import { EMPTY_SYNC_META, applyRecordUpdates, connectSync, fetchSyncStatus, runSync, trackLocalChanges } from './services/syncService';
+import { buildAssetRows, buildAssetHistoryRows, buildBudgetRows, buildTransactionRows, buildMonthlyReport, toCSV, toSpreadsheetML, sheetsToCSV, downloadFile } from './services/exportService';
 import { AreaChart, Area, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell, Legend } from 'recharts';
 
-const parseDate = (dateStr: string) => {
-  if (dateStr.includes('-')) return new Date(dateStr).getTime();
-  const [m, d] = dateStr.split('/').map(Number);
-  const year = new Date().getFullYear();
-  return new Date(year, m - 1, d).getTime();
-};
-
 const generateMockHistory = (baseValue: number): HistoryPoint[] => {
   const history: HistoryPoint[] = [];
   const today = new Date();
@@ -32,12 +59,26 @@ const generateMockHistory = (baseValue: number): HistoryPoint[] => {
 const DEFAULT_BUDGET_CATEGORIES = ['生活', '投资', '其他'];
 const DEFAULT_ASSET_CATEGORIES = Object.values(AssetCategory);
 
+const generateMockFund = (units: number, baseNav: number): Pick<Asset, 'value' | 'history' | 'holding'> => {
+  const navHistory = generateMockHistory(baseNav);
+  return {
+    value: 0,
+    history: navHistory.map(h => ({ date: h.date, value: Math.round(h.value * units * 100) / 100 })),
+    holding: {
+      code: '005827',
+      nav: navHistory[navHistory.length - 1].value,
+      navHistory,
+      events: [{ id: 'seed-buy', type: 'buy', date: navHistory[0].date, units, price: navHistory[0].value }]
+    }
+  };
+};
+
 const INITIAL_ASSETS: Asset[] = [
-  { id: '1', name: '支付宝余额', category: AssetCategory.THIRD_PARTY, value: 45000, currency: 'CNY', change24h: 0, lastUpdated: '2024-05-20', history: generateMockHistory(45000) },
-  { id: '2', name: '招商银行储蓄卡', category: AssetCategory.BANK, value: 120500, currency: 'CNY', change24h: 0.01, lastUpdated: '2024-05-20', history: generateMockHistory(120500) },
-  { id: '3', name: '稳健理财Pro', category: AssetCategory.WEALTH, value: 58000, currency: 'CNY', change24h: 0.1, lastUpdated: '2024-05-20', history: generateMockHistory(58000) },
-  { id: '4', name: '易方达蓝筹精选', category: AssetCategory.FUND, value: 32000, currency: 'CNY', change24h: -1.2, lastUpdated: '2024-05-20', history: generateMockHistory(32000) },
-  { id: '5', name: '信用卡欠款', category: AssetCategory.LIABILITY, value: 8500, targetValue: 50000, durationMonths: 12, currency: 'CNY', lastUpdated: '2024-05-20', history: generateMockHistory(8500), notes: '还款日10号' },
+  { id: '1', name: '支付宝余额', category: AssetCategory.THIRD_PARTY, value: 45000, currency: 'CNY', lastUpdated: '2024-05-20', history: generateMockHistory(45000) },
+  { id: '2', name: '招商银行储蓄卡', category: AssetCategory.BANK, value: 120500, currency: 'CNY', lastUpdated: '2024-05-20', history: generateMockHistory(120500) },
+  { id: '3', name: '稳健理财Pro', category: AssetCategory.WEALTH, value: 58000, currency: 'CNY', lastUpdated: '2024-05-20', history: generateMockHistory(58000) },
+  withHoldingValue({ id: '4', name: '易方达蓝筹精选', category: AssetCategory.FUND, currency: 'CNY', lastUpdated: '2024-05-20', ...generateMockFund(13000, 2.4) }),
+  { id: '5', name: '信用卡欠款', category: AssetCategory.LIABILITY, value: 8500, targetValue: 50000, durationMonths: 12, currency: 'CNY', lastUpdated: '2024-05-20', history: generateMockHistory(8500), creditCard: { statementDay: 20, dueDay: 10, creditLimit: 50000, reminderDays: 3 } },
 ];
 
 const INITIAL_BUDGETS: Budget[] = [
@@ -112,29 +153,67 @@ const FilterBar = memo(({ selected, onSelect, categories, onAdd, type, themeColo
   );
 });
 
-export const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'home' | 'budget' | 'settings'>('home');
-  const [assets, setAssets] = useState<Asset[]>(() => {
-    const saved = localStorage.getItem('assets_data');
-    return saved ? JSON.parse(saved) : INITIAL_ASSETS;
-  });
-  const [budgets, setBudgets] = useState<Budget[]>(() => {
-    const saved = localStorage.getItem('budget_data');
-    return saved ? JSON.parse(saved) : INITIAL_BUDGETS;
-  });
-  const [budgetCategoryList, setBudgetCategoryList] = useState<string[]>(() => {
-    const saved = localStorage.getItem('budget_category_list');
-    return saved ? JSON.parse(saved) : DEFAULT_BUDGET_CATEGORIES;
-  });
-  const [assetCategoryList, setAssetCategoryList] = useState<string[]>(() => {
-    const saved = localStorage.getItem('asset_category_list');
-    return saved ? JSON.parse(saved) : DEFAULT_ASSET_CATEGORIES;
+const updateAssetIn = (assets: Asset[], id: string, updates: Partial<Asset>, backfill?: HistoryPoint[]): Asset[] =>
+  assets.map(a => {
+    if (a.id !== id) return a;
+    // 有持仓明细时市值由份额 × 净值推导
+    const merged = withHoldingValue({ ...a, ...updates });
+    const todayStr = new Date().toISOString().split('T')[0];
+    // 补录的历史数据按日期插入；普通修改记为今日数据点，同日多次修改只保留最后一次
+    const newHistory = backfill
+      ? mergeHistoryPoints(a.history, backfill)
+      : updates.value !== undefined || merged.value !== a.value
+        ? mergeHistoryPoints(a.history, [{ date: todayStr, value: merged.value }])
+        : a.history;
+    return { ...merged, history: newHistory, lastUpdated: new Date().toLocaleDateString('zh-CN') };
   });
+
+// 删除类操作后提示条的停留时间
+const TOAST_DURATION_MS = 6000;
+// 连接同步服务器后的自动同步间隔
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// 同步带来的账户或预算可能使用本机没有的分类，补进分类列表
+const withSyncedCategories = (state: FinanceState, next: Pick<FinanceState, 'assets' | 'budgets'>): Partial<FinanceState> => {
+  const assetCategories = Array.from(new Set(next.assets.map(a => a.category as string))).filter(c => !state.assetCategoryList.includes(c));
+  const budgetCategories = Array.from(new Set(next.budgets.map(b => b.category))).filter(c => c !== TOTAL_BUDGET_CATEGORY && !state.budgetCategoryList.includes(c));
+  return {
+    ...next,
+    ...(assetCategories.length > 0 ? { assetCategoryList: [...state.assetCategoryList, ...assetCategories] } : {}),
+    ...(budgetCategories.length > 0 ? { budgetCategoryList: [...state.budgetCategoryList, ...budgetCategories] } : {})
+  };
+};
+
+interface AppProps {
+  repository: FinanceRepository;
+  insightService?: InsightService;
+}
+
+export const App: React.FC<AppProps> = ({ repository, insightService: injectedInsightService }) => {
+  const [activeTab, setActiveTab] = useState<'home' | 'budget' | 'settings'>('home');
+  const [assets, setAssets] = useState<Asset[]>(() => repository.getAssets() || INITIAL_ASSETS);
+  const [budgets, setBudgets] = useState<Budget[]>(() => migrateBudgets(repository.getBudgets() || INITIAL_BUDGETS, getMonthKey(new Date())));
+  const [budgetCategoryList, setBudgetCategoryList] = useState<string[]>(() => repository.get('budgetCategoryList') || DEFAULT_BUDGET_CATEGORIES);
+  const [assetCategoryList, setAssetCategoryList] = useState<string[]>(() => repository.get('assetCategoryList') || DEFAULT_ASSET_CATEGORIES);
   
-  const [customCategoryColors, setCustomCategoryColors] = useState<Record<string, string>>(() => {
-    const saved = localStorage.getItem('category_colors_map');
-    return saved ? JSON.parse(saved) : CategoryColors;
-  });
+  const [customCategoryColors, setCustomCategoryColors] = useState<Record<string, string>>(() => repository.get('categoryColors') || CategoryColors);
+
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(() => ({ ...DEFAULT_LLM_SETTINGS, ...repository.get('llmSettings') }));
+  const [pendingEntries, setPendingEntries] = useState<PendingEntry[]>(() => repository.get('pendingEntries') || []);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(() => repository.get('exchangeRates') || []);
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>(() => repository.get('savingsGoals') || []);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>(() => repository.get('recurringRules') || []);
+  const [recurringQueue, setRecurringQueue] = useState<RecurringOccurrence[]>(() => repository.get('recurringQueue') || []);
+  const [transfers, setTransfers] = useState<Transfer[]>(() => repository.get('transfers') || []);
+  const [chartAnnotations, setChartAnnotations] = useState<ChartAnnotation[]>(() => repository.get('chartAnnotations') || []);
+  const [baseCurrency, setBaseCurrency] = useState(() => repository.get('baseCurrency') || BASE_CURRENCY);
+  const [aiInsightCache, setAiInsightCache] = useState<CachedAIInsight | null>(() => repository.get('aiInsightCache') || null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(() => repository.get('auditLog') || []);
+  const [undoLabels, setUndoLabels] = useState<{ undo?: string; redo?: string }>({});
+  const [toast, setToast] = useState<{ message: string; stepId: string } | null>(null);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(() => repository.get('syncSettings') || null);
+  const [syncMeta, setSyncMeta] = useState<SyncMeta>(() => repository.get('syncMeta') || EMPTY_SYNC_META);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle' });
 
   const [selectedAssetCategory, setSelectedAssetCategory] = useState<string>('全部');
   const [selectedBudgetCategory, setSelectedBudgetCategory] = useState<string>('全部');
@@ -142,14 +221,26 @@ export const App: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null);
   const [activeHeaderColor, setActiveHeaderColor] = useState<string>('#ffffff');
-  const [isAutoTheme, setIsAutoTheme] = useState(() => localStorage.getItem('auto_theme') === 'true');
-  const [themeColor, setThemeColor] = useState(() => localStorage.getItem('app_theme') || '#ef4444');
-  const [isSmallCardMode, setIsSmallCardMode] = useState(() => localStorage.getItem('small_card_mode') === 'true');
+  const [isAutoTheme, setIsAutoTheme] = useState(() => repository.get('autoTheme') === true);
+  const [themeColor, setThemeColor] = useState(() => repository.get('themeColor') || '#ef4444');
+  const [isSmallCardMode, setIsSmallCardMode] = useState(() => repository.get('smallCardMode') === true);
 
   const [viewingAssetChart, setViewingAssetChart] = useState<Asset | null>(null);
   const [showGlobalChart, setShowGlobalChart] = useState(false);
   const [showDistribution, setShowDistribution] = useState<'asset' | 'budget' | null>(null);
-  const [backupText, setBackupText] = useState('');
+  const [showBudgetHistory, setShowBudgetHistory] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [reportMonth, setReportMonth] = useState(() => getMonthKey(new Date()));
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('replace');
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [isEncrypted, setIsEncrypted] = useState(() => repository.isEncrypted());
+  const [privacyMode, setPrivacyMode] = useState(() => repository.get('privacyMode') === true);
+  const [isAmountRevealed, setIsAmountRevealed] = useState(false);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(() => typeof Notification !== 'undefined' ? Notification.permission : 'denied');
+  const [newRate, setNewRate] = useState({ currency: 'USD', date: '', rate: '' });
+  const [transferFromId, setTransferFromId] = useState<string | null>(null); // null 为关闭，空串为不预选转出账户
 
   const [editingBudgetIndex, setEditingBudgetIndex] = useState<number | null>(null);
   const [showBudgetColorPicker, setShowBudgetColorPicker] = useState(false);
@@ -163,6 +254,8 @@ export const App: React.FC = () => {
   const [isAddingTransaction, setIsAddingTransaction] = useState(false);
   const [newTransactionAmount, setNewTransactionAmount] = useState('');
   const [newTransactionNote, setNewTransactionNote] = useState('');
+  const [newTransactionDate, setNewTransactionDate] = useState('');
+  const [editingTransaction, setEditingTransaction] = useState<{ id: string, amount: string, note: string, date: string, originalDate: string, targetIndex: number } | null>(null);
 
   const [isEditingTotalLimit, setIsEditingTotalLimit] = useState(false);
   const [tempTotalLimit, setTempTotalLimit] = useState('');
@@ -188,41 +281,213 @@ export const App: React.FC = () => {
     });
   }, []);
 
-  useEffect(() => localStorage.setItem('assets_data', JSON.stringify(assets)), [assets]);
-  useEffect(() => localStorage.setItem('budget_data', JSON.stringify(budgets)), [budgets]);
-  useEffect(() => localStorage.setItem('budget_category_list', JSON.stringify(budgetCategoryList)), [budgetCategoryList]);
-  useEffect(() => localStorage.setItem('asset_category_list', JSON.stringify(assetCategoryList)), [assetCategoryList]);
-  useEffect(() => localStorage.setItem('category_colors_map', JSON.stringify(customCategoryColors)), [customCategoryColors]);
+  const currentMonth = useMemo(() => getMonthKey(new Date()), []);
+
+  // 最新的财务数据；同一事件内的多次修改在重新渲染前也能基于上一次的结果
+  const financeRef = useRef<FinanceState>(null);
+  financeRef.current = { assets, budgets, budgetCategoryList, assetCategoryList, customCategoryColors, transfers };
+  const undoStack = useRef<{ past: UndoStep[]; future: UndoStep[] }>({ past: [], future: [] });
+
+  const applyFinanceState = useCallback((state: Partial<FinanceState>) => {
+    financeRef.current = { ...financeRef.current, ...state };
+    if (state.assets) setAssets(state.assets);
+    if (state.budgets) setBudgets(state.budgets);
+    if (state.budgetCategoryList) setBudgetCategoryList(state.budgetCategoryList);
+    if (state.assetCategoryList) setAssetCategoryList(state.assetCategoryList);
+    if (state.customCategoryColors) setCustomCategoryColors(state.customCategoryColors);
+    if (state.transfers) setTransfers(state.transfers);
+  }, []);
+
+  const syncUndoLabels = useCallback(() => {
+    const { past, future } = undoStack.current;
+    setUndoLabels({ undo: past[past.length - 1]?.action, redo: future[future.length - 1]?.action });
+  }, []);
+
+  /**
+   * 财务数据的修改统一经由此处：基于最新数据计算结果，写入操作记录并压入撤销栈。
+   * mergeKey 相同且间隔很短的连续修改（如逐字输入）合并为一步；传入 toast 时弹出可撤销的提示。
+   */
+  const commitChange = useCallback((
+    action: string,
+    recipe: (state: FinanceState) => Partial<FinanceState>,
+    options: { source?: AuditSource; mergeKey?: string; toast?: string } = {}
+  ) => {
+    const current = financeRef.current;
+    const patch = recipe(current);
+    const keys = (Object.keys(patch) as (keyof FinanceState)[]).filter(k => patch[k] !== current[k]);
+    if (keys.length === 0) return;
+    const before = Object.fromEntries(keys.map(k => [k, current[k]])) as Partial<FinanceState>;
+    const after = Object.fromEntries(keys.map(k => [k, patch[k]])) as Partial<FinanceState>;
+    applyFinanceState(after);
+
+    const now = Date.now();
+    const { past } = undoStack.current;
+    const last = past[past.length - 1];
+    let step: UndoStep = { id: `${now}-${Math.random().toString(36).slice(2, 6)}`, action, source: options.source || 'manual', before, after, mergeKey: options.mergeKey, at: now };
+    if (last && options.mergeKey && last.mergeKey === options.mergeKey && now - last.at < MERGE_WINDOW_MS) {
+      step = mergeUndoSteps(past.pop(), step);
+    }
+    past.push(step);
+    if (past.length > MAX_UNDO_STEPS) past.shift();
+    undoStack.current.future = [];
+
+    const changes = diffFinanceState(step.before, step.after, financeRef.current.assets);
+    setAuditLog(prev => appendAuditEntry(prev, createAuditEntry(step, changes)));
+    syncUndoLabels();
+    setToast(options.toast ? { message: options.toast, stepId: step.id } : null);
+  }, [applyFinanceState, syncUndoLabels]);
+
+  const replayStep = useCallback((direction: 'undo' | 'redo') => {
+    const { past, future } = undoStack.current;
+    const step = direction === 'undo' ? past.pop() : future.pop();
+    if (!step) return;
+    (direction === 'undo' ? future : past).push(step);
+    const [from, to] = direction === 'undo' ? [step.after, step.before] : [step.before, step.after];
+    applyFinanceState(to);
+    const changes = diffFinanceState(from, to, financeRef.current.assets);
+    setAuditLog(prev => appendAuditEntry(prev, createAuditEntry({ id: `${Date.now()}-${direction}`, action: `${SOURCE_LABELS[direction]}「${step.action}」`, source: direction }, changes)));
+    syncUndoLabels();
+    setToast(null);
+  }, [applyFinanceState, syncUndoLabels]);
+
+  const handleUndo = useCallback(() => replayStep('undo'), [replayStep]);
+  const handleRedo = useCallback(() => replayStep('redo'), [replayStep]);
+
+  // 提示条上的撤销只对应它所提示的那一步
+  const handleToastUndo = () => {
+    const { past } = undoStack.current;
+    if (toast && past[past.length - 1]?.id === toast.stepId) handleUndo();
+    setToast(null);
+  };
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Ctrl/⌘+Z 撤销，Ctrl/⌘+Shift+Z 或 Ctrl+Y 重做；焦点在输入框时保留浏览器自带的文字撤销
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // 跨月打开时自动结算上月预算
+  useEffect(() => {
+    const lastMonth = repository.get('budgetPeriod');
+    if (lastMonth && lastMonth < currentMonth) {
+      commitChange('月度结算', s => ({ budgets: rolloverBudgets(s.budgets, lastMonth, currentMonth) }), { source: 'system' });
+    }
+    repository.set('budgetPeriod', currentMonth);
+  }, [currentMonth]);
+
+  // 生成到期的周期流水与资产变动，更早错过的期数进入补记列表
+  const runRecurringRules = useCallback((rules: RecurringRule[]) => {
+    const { rules: nextRules, due, missed, dropped } = collectDueOccurrences(rules);
+    setRecurringRules(nextRules);
+    if (due.length > 0) {
+      commitChange('周期记账', s => ({
+        budgets: applyOccurrencesToBudgets(s.budgets, nextRules, due),
+        assets: applyOccurrencesToAssets(s.assets, nextRules, due)
+      }), { source: 'recurring' });
+    }
+    if (missed.length > 0) setRecurringQueue(prev => [...prev, ...missed.filter(m => !prev.some(p => p.id === m.id))]);
+    if (dropped.length > 0) {
+      alert(`以下周期规则错过的期数过多，最早的部分未生成，请手动补记：\n${dropped.map(d => `「${d.name}」${d.count} 期`).join('\n')}`);
+    }
+  }, [commitChange]);
+
+  // 打开应用时检查一次；StrictMode 下 effect 会执行两遍，用 ref 避免重复生成
+  const recurringChecked = useRef(false);
+  useEffect(() => {
+    if (recurringChecked.current) return;
+    recurringChecked.current = true;
+    runRecurringRules(recurringRules);
+  }, []);
+
+  useEffect(() => repository.saveAssets(assets), [assets]);
+  useEffect(() => repository.saveBudgets(budgets), [budgets]);
+  useEffect(() => repository.set('budgetCategoryList', budgetCategoryList), [budgetCategoryList]);
+  useEffect(() => repository.set('assetCategoryList', assetCategoryList), [assetCategoryList]);
+  useEffect(() => repository.set('categoryColors', customCategoryColors), [customCategoryColors]);
+  useEffect(() => repository.set('llmSettings', llmSettings), [llmSettings]);
+  useEffect(() => repository.set('exchangeRates', exchangeRates), [exchangeRates]);
+  useEffect(() => repository.set('baseCurrency', baseCurrency), [baseCurrency]);
+  useEffect(() => repository.set('savingsGoals', savingsGoals), [savingsGoals]);
+  useEffect(() => repository.set('recurringRules', recurringRules), [recurringRules]);
+  useEffect(() => repository.set('recurringQueue', recurringQueue), [recurringQueue]);
+  useEffect(() => repository.set('transfers', transfers), [transfers]);
+  useEffect(() => repository.set('chartAnnotations', chartAnnotations), [chartAnnotations]);
+  useEffect(() => repository.set('pendingEntries', pendingEntries), [pendingEntries]);
+  useEffect(() => repository.set('auditLog', auditLog), [auditLog]);
+  useEffect(() => repository.set('syncSettings', syncSettings), [syncSettings]);
+  useEffect(() => repository.set('syncMeta', syncMeta), [syncMeta]);
   useEffect(() => {
-    localStorage.setItem('app_theme', themeColor);
-    localStorage.setItem('auto_theme', isAutoTheme.toString());
-    localStorage.setItem('small_card_mode', isSmallCardMode.toString());
+    if (aiInsightCache) repository.set('aiInsightCache', aiInsightCache);
+  }, [aiInsightCache]);
+  useEffect(() => {
+    repository.set('themeColor', themeColor);
+    repository.set('autoTheme', isAutoTheme);
+    repository.set('smallCardMode', isSmallCardMode);
   }, [themeColor, isAutoTheme, isSmallCardMode]);
 
+  useEffect(() => applyAppTheme(themeColor), [themeColor]);
+
+  useEffect(() => onServiceWorkerUpdate(apply => setApplyUpdate(() => apply)), []);
+
+  useEffect(() => {
+    repository.set('privacyMode', privacyMode);
+    setIsAmountRevealed(false);
+  }, [privacyMode]);
+
+  // 隐私模式下顶部汇总金额打码，点击后显示
+  const showAmount = (text: string) => privacyMode && !isAmountRevealed ? MASKED_AMOUNT : text;
+
+  const insightService = useMemo(
+    () => injectedInsightService || createInsightService(llmSettings),
+    [injectedInsightService, llmSettings]
+  );
+  const entryParser = useMemo(() => createEntryParser(llmSettings), [llmSettings]);
+
+  // 折算为本位币的资产，汇总、图表与分析都基于它计算
+  const baseAssets = useMemo(() => convertAssets(assets, exchangeRates, baseCurrency), [assets, exchangeRates, baseCurrency]);
+  const missingCurrencies = useMemo(() => getMissingCurrencies(assets, exchangeRates, baseCurrency), [assets, exchangeRates, baseCurrency]);
+  const baseSymbol = currencySymbol(baseCurrency);
+
   const stats = useMemo(() => {
-    const pos = assets.filter(a => a.category !== AssetCategory.LIABILITY);
-    const neg = assets.filter(a => a.category === AssetCategory.LIABILITY);
-    const totalAssets = pos.reduce((sum, a) => sum + a.value, 0);
-    const totalLiabilities = neg.reduce((sum, a) => sum + a.value, 0);
-    return { totalAssets, totalLiabilities, netWorth: totalAssets - totalLiabilities };
-  }, [assets]);
+    const pos = baseAssets.filter(a => a.category !== AssetCategory.LIABILITY);
+    const neg = baseAssets.filter(a => a.category === AssetCategory.LIABILITY);
+    const totalAssets = Math.round(pos.reduce((sum, a) => sum + a.value, 0) * 100) / 100;
+    const totalLiabilities = Math.round(neg.reduce((sum, a) => sum + a.value, 0) * 100) / 100;
+    return { totalAssets, totalLiabilities, netWorth: Math.round((totalAssets - totalLiabilities) * 100) / 100 };
+  }, [baseAssets]);
 
   const budgetStats = useMemo(() => {
     const total = budgets.find(b => b.category === '总计');
     return {
       limit: total?.monthlyAmount || 0,
       spent: total?.spentThisMonth || 0,
-      remaining: (total?.monthlyAmount || 0) - (total?.spentThisMonth || 0)
+      carryOver: total?.carryOver || 0,
+      remaining: (total?.monthlyAmount || 0) + (total?.carryOver || 0) - (total?.spentThisMonth || 0)
     };
   }, [budgets]);
 
   const assetDistributionData = useMemo(() => {
     const distribution: Record<string, number> = {};
-    assets.forEach(a => {
+    baseAssets.forEach(a => {
       distribution[a.category] = (distribution[a.category] || 0) + a.value;
     });
-    return Object.entries(distribution).map(([name, value]) => ({ name, value }));
-  }, [assets]);
+    return Object.entries(distribution).map(([name, value]) => ({ name, value: Math.round(value * 100) / 100 }));
+  }, [baseAssets]);
 
   const budgetDistributionData = useMemo(() => {
     const distribution: Record<string, number> = {};
@@ -232,37 +497,29 @@ export const App: React.FC = () => {
     return Object.entries(distribution).map(([name, value]) => ({ name, value }));
   }, [budgets]);
 
-  const globalHistory = useMemo(() => {
-    if (assets.length === 0) return [];
-    const allDates = new Set<string>();
-    assets.forEach(a => a.history.forEach(h => allDates.add(h.date)));
-    const sortedDates = Array.from(allDates).sort((a, b) => parseDate(a) - parseDate(b));
-    return sortedDates.map(date => {
-      let total = 0;
-      const targetTime = parseDate(date);
-      assets.forEach(asset => {
-        let val = 0;
-        const exactMatch = asset.history.find(h => h.date === date);
-        if (exactMatch) {
-            val = exactMatch.value;
-        } else {
-            let closest = null;
-            let maxTime = -1;
-            for (const h of asset.history) {
-                const hTime = parseDate(h.date);
-                if (hTime <= targetTime && hTime > maxTime) {
-                    maxTime = hTime;
-                    closest = h;
-                }
-            }
-            if (closest) val = closest.value;
-        }
-        if (asset.category === AssetCategory.LIABILITY) total -= val;
-        else total += val;
-      });
-      return { date, value: total };
+  const globalHistory = useMemo(() => buildNetWorthSeries(baseAssets), [baseAssets]);
+
+  const upcomingPayments = useMemo(() => getUpcomingPayments(assets), [assets]);
+
+  // 进入提醒期的还款发送系统通知，每期只提醒一次；由 service worker 代发时，尚未到提醒期的在应用关闭后也能提醒
+  useEffect(() => {
+    if (notificationPermission !== 'granted') return;
+    const notified = repository.get('notifiedReminders') || [];
+    const pending = upcomingPayments.filter(p => !notified.includes(`${p.assetId}|${p.dueDate}`));
+    // 提醒内容存放在 service worker 缓存中不加密，开启启动口令时不写金额
+    const toNotice = (p: typeof pending[number]) => ({
+      id: `${p.assetId}|${p.dueDate}`,
+      title: `${p.name} 还款提醒`,
+      body: isEncrypted ? `${p.dueDate} 到期` : `${p.dueDate} 到期，应还 ${formatMoney(p.amount, p.currency)}`,
+      remindOn: p.remindOn
     });
-  }, [assets]);
+    const due = pending.filter(p => p.isReminder);
+    if (!scheduleReminders(pending.map(toNotice))) due.map(toNotice).forEach(n => showNotification(n.title, n.body));
+    if (due.length === 0) return;
+    repository.set('notifiedReminders', [...notified, ...due.map(p => `${p.assetId}|${p.dueDate}`)].slice(-100));
+  }, [upcomingPayments, notificationPermission, isEncrypted]);
+
+  const chartAsset = viewingAssetChart ? (assets.find(a => a.id === viewingAssetChart.id) || viewingAssetChart) : null;
 
   const onAssetVisible = useCallback((id: string, color: string) => {
     if (isAutoTheme) {
@@ -270,39 +527,143 @@ export const App: React.FC = () => {
     }
   }, [isAutoTheme]);
 
-  const handleUpdateAsset = useCallback((id: string, updates: Partial<Asset>) => {
-    setAssets(prev => prev.map(a => {
-      if (a.id === id) {
-        const newValue = updates.value !== undefined ? updates.value : a.value;
-        const todayStr = new Date().toISOString().split('T')[0];
-        const newHistory = updates.value !== undefined 
-          ? [...a.history, { date: todayStr, value: newValue }]
-          : a.history;
-        return { ...a, ...updates, history: newHistory, lastUpdated: new Date().toLocaleDateString('zh-CN') };
-      }
-      return a;
-    }));
-  }, []);
+  const handleUpdateAsset = useCallback((id: string, updates: Partial<Asset>, backfill?: HistoryPoint[]) => {
+    commitChange('修改账户', s => ({ assets: updateAssetIn(s.assets, id, updates, backfill) }), { mergeKey: `asset:${id}` });
+  }, [commitChange]);
+
+  const handleDeleteAsset = useCallback((id: string) => {
+    const name = financeRef.current.assets.find(a => a.id === id)?.name;
+    commitChange('删除账户', s => ({ assets: s.assets.filter(a => a.id !== id) }), { toast: `已删除「${name}」` });
+  }, [commitChange]);
+
+  const handleAddAsset = (asset: Omit<Asset, 'id' | 'lastUpdated' | 'history'>) => {
+    const created = withHoldingValue({ ...asset, id: Math.random().toString(36), lastUpdated: new Date().toLocaleDateString('zh-CN'), history: [{ date: new Date().toISOString().split('T')[0], value: asset.value }] });
+    commitChange('新增账户', s => ({ assets: [...s.assets, created] }));
+  };
+
+  // 转账的两个账户在同一次更新中修改，避免净资产出现中间状态
+  const handleTransfer = useCallback((transfer: Transfer) => {
+    commitChange('转账', s => ({ assets: applyTransfer(s.assets, transfer), transfers: [transfer, ...s.transfers] }));
+  }, [commitChange]);
+
+  const handleRevertTransfer = (transfer: Transfer) => {
+    commitChange('撤回转账', s => ({ assets: applyTransfer(s.assets, transfer, -1), transfers: s.transfers.filter(t => t.id !== transfer.id) }), { toast: '转账已撤回' });
+  };
 
   const handleUpdateBudget = useCallback((index: number, updates: Partial<Budget>) => {
-    setBudgets(prev => {
-      const newBudgets = [...prev];
-      newBudgets[index] = { ...newBudgets[index], ...updates };
+    commitChange('修改预算', ({ budgets: prev }) => {
+      // 本月支出由流水汇总得出，直接修改时转为一笔调整流水
+      const { spentThisMonth, ...rest } = updates;
+      let newBudgets = [...prev];
+      newBudgets[index] = { ...newBudgets[index], ...rest };
       if (newBudgets[index].category !== '总计') {
-        const categoriesOnly = newBudgets.filter(b => b.category !== '总计');
-        const totalIdx = newBudgets.findIndex(b => b.category === '总计');
-        if (totalIdx !== -1) {
-          newBudgets[totalIdx] = {
-            ...newBudgets[totalIdx],
-            monthlyAmount: categoriesOnly.reduce((sum, b) => sum + b.monthlyAmount, 0),
-            spentThisMonth: categoriesOnly.reduce((sum, b) => sum + b.spentThisMonth, 0)
-          };
-        }
+        if (spentThisMonth !== undefined) newBudgets = setSpentAmount(newBudgets, index, spentThisMonth);
+        return { budgets: syncTotalBudget(newBudgets) };
       }
-      return newBudgets;
-    });
+      if (spentThisMonth !== undefined) newBudgets[index] = { ...newBudgets[index], spentThisMonth };
+      return { budgets: newBudgets };
+    }, { mergeKey: `budget:${index}` });
+  }, [commitChange]);
+
+  const handleAddBudget = () => {
+    const newBudget = { id: createBudgetId(), category: budgetCategoryList[0] || '生活', subCategory: '新项目', monthlyAmount: 0, spentThisMonth: 0, carryOver: 0, color: themeColor, transactions: [] };
+    commitChange('新增预算', s => ({ budgets: [...s.budgets, newBudget] }));
+    setTimeout(() => { setEditingBudgetIndex(budgets.length); setShowBudgetColorPicker(false); }, 0);
+  };
+
+  const handleDeleteBudget = (index: number) => {
+    const budget = budgets[index];
+    commitChange('删除预算', s => ({ budgets: s.budgets.filter((_, i) => i !== index) }), { toast: `已删除「${budget.subCategory || budget.category}」` });
+  };
+
+  const handleSaveRecurringRule = useCallback((rule: RecurringRule) => {
+    const exists = recurringRules.some(r => r.id === rule.id);
+    runRecurringRules(exists ? recurringRules.map(r => r.id === rule.id ? rule : r) : [...recurringRules, rule]);
+  }, [recurringRules, runRecurringRules]);
+
+  const handleDeleteRecurringRule = useCallback((id: string) => {
+    setRecurringRules(prev => prev.filter(r => r.id !== id));
+    setRecurringQueue(prev => prev.filter(o => o.ruleId !== id));
   }, []);
 
+  const handleConfirmOccurrences = useCallback((occurrences: RecurringOccurrence[]) => {
+    commitChange('补记周期项目', s => ({
+      budgets: applyOccurrencesToBudgets(s.budgets, recurringRules, occurrences),
+      assets: applyOccurrencesToAssets(s.assets, recurringRules, occurrences)
+    }), { source: 'recurring' });
+    setRecurringQueue(prev => prev.filter(o => !occurrences.some(c => c.id === o.id)));
+  }, [recurringRules, commitChange]);
+
+  const handleAddTransaction = useCallback((index: number, transaction: Transaction) => {
+    commitChange('新增流水', s => ({ budgets: addTransaction(s.budgets, index, transaction) }));
+  }, [commitChange]);
+
+  const handleSaveTransactionEdit = () => {
+    if (viewingTransactionsIndex === null || !editingTransaction) return;
+    const amount = parseFloat(editingTransaction.amount);
+    if (isNaN(amount) || amount === 0) return;
+    const { id, note, date, originalDate, targetIndex } = editingTransaction;
+    const [y, m, d] = date.split('-').map(Number);
+    const newDate = date === formatTransactionDate(originalDate) || !y ? originalDate : toTransactionTimestamp(new Date(y, m - 1, d));
+    commitChange('修改流水', s => ({
+      budgets: moveTransaction(
+        updateTransaction(s.budgets, viewingTransactionsIndex, id, { amount, note: note.trim() || undefined, date: newDate }),
+        viewingTransactionsIndex, targetIndex, id
+      )
+    }));
+    setEditingTransaction(null);
+  };
+
+  const handleDeleteTransaction = (id: string) => {
+    if (viewingTransactionsIndex === null) return;
+    commitChange('删除流水', s => ({ budgets: deleteTransaction(s.budgets, viewingTransactionsIndex, id) }), { toast: '已删除' });
+    setEditingTransaction(null);
+  };
+
+  // 一句话记账：先按本地规则解析，匹配不到时再尝试模型解析，仍无法确定则进入待确认队列
+  const handleQuickEntry = useCallback(async (text: string): Promise<string> => {
+    let parsed = parseQuickEntry(text, budgets);
+    if ((parsed.budgetIndex === null || parsed.amount === null) && entryParser) {
+      try {
+        const llmParsed = await entryParser(text, budgets);
+        parsed = {
+          ...parsed,
+          amount: parsed.amount ?? llmParsed.amount,
+          budgetIndex: parsed.budgetIndex ?? llmParsed.budgetIndex,
+          note: parsed.budgetIndex === null ? llmParsed.note : parsed.note
+        };
+      } catch (e) {
+        console.error('Entry parsing failed:', e);
+      }
+    }
+    // 等待模型解析期间预算可能已被增删或调整顺序，按 id（旧数据按分类与项目）在最新数据中重新定位
+    const target = parsed.budgetIndex !== null ? budgets[parsed.budgetIndex] : undefined;
+    const index = target ? financeRef.current.budgets.findIndex(b => target.id
+      ? b.id === target.id
+      : b.category === target.category && (b.subCategory || '') === (target.subCategory || '')) : -1;
+    if (parsed.amount !== null && index >= 0) {
+      handleAddTransaction(index, { id: Date.now().toString(), amount: parsed.amount, date: toTransactionTimestamp(parsed.date), note: parsed.note || '快速记录' });
+      return `已记入「${target.subCategory || target.category}」 ¥${parsed.amount.toLocaleString()}`;
+    }
+    setPendingEntries(prev => [...prev, {
+      id: Date.now().toString(),
+      text,
+      amount: parsed.amount ?? undefined,
+      date: formatTransactionDate(parsed.date.toISOString()),
+      note: parsed.note,
+      createdAt: new Date().toISOString()
+    }]);
+    return '未能确定归属，已加入待确认';
+  }, [budgets, entryParser, handleAddTransaction]);
+
+  const handleResolvePending = useCallback((id: string, budgetIndex: number, amount: number) => {
+    const entry = pendingEntries.find(p => p.id === id);
+    if (!entry) return;
+    const [y, m, d] = entry.date.split('-').map(Number);
+    handleAddTransaction(budgetIndex, { id: Date.now().toString(), amount, date: toTransactionTimestamp(new Date(y, m - 1, d)), note: entry.note || entry.text });
+    setPendingEntries(prev => prev.filter(p => p.id !== id));
+  }, [pendingEntries, handleAddTransaction]);
+
   const handleClearDataKeepTemplate = () => {
     if (!confirm('确定要清除所有数据但保留模板吗？\n资产数值将归零，预算流水将清空，但分类设置将保留。')) return;
 
@@ -322,10 +683,7 @@ export const App: React.FC = () => {
       transactions: []
     }));
 
-    // Update state directly
-    setAssets(resetAssets);
-    setBudgets(resetBudgets);
-    alert('数据已重置，模板已保留。');
+    commitChange('清除数据（保留模板）', () => ({ assets: resetAssets, budgets: resetBudgets }), { toast: '数据已重置，模板已保留' });
   };
 
   const handleAddBudgetCategory = () => {
@@ -337,8 +695,10 @@ export const App: React.FC = () => {
         alert('分类已存在。');
         return;
       }
-      setBudgetCategoryList([...budgetCategoryList, trimmed]);
-      setCustomCategoryColors(prev => ({ ...prev, [trimmed]: THEME_COLORS[Math.floor(Math.random() * THEME_COLORS.length)] }));
+      commitChange('新增分类', s => ({
+        budgetCategoryList: [...s.budgetCategoryList, trimmed],
+        customCategoryColors: { ...s.customCategoryColors, [trimmed]: THEME_COLORS[Math.floor(Math.random() * THEME_COLORS.length)] }
+      }));
     }
   };
 
@@ -351,8 +711,10 @@ export const App: React.FC = () => {
         alert('分类已存在。');
         return;
       }
-      setAssetCategoryList([...assetCategoryList, trimmed]);
-      setCustomCategoryColors(prev => ({ ...prev, [trimmed]: THEME_COLORS[Math.floor(Math.random() * THEME_COLORS.length)] }));
+      commitChange('新增分类', s => ({
+        assetCategoryList: [...s.assetCategoryList, trimmed],
+        customCategoryColors: { ...s.customCategoryColors, [trimmed]: THEME_COLORS[Math.floor(Math.random() * THEME_COLORS.length)] }
+      }));
     }
   };
 
@@ -366,33 +728,45 @@ export const App: React.FC = () => {
         alert('目标分类名称已存在。');
         return;
       }
+      const renameColor = (colors: Record<string, string>) => {
+        const next = { ...colors };
+        next[trimmed] = next[oldName] || themeColor;
+        delete next[oldName];
+        return next;
+      };
       if (type === 'budget') {
-        setBudgetCategoryList(budgetCategoryList.map(c => c === oldName ? trimmed : c));
-        setBudgets(budgets.map(b => b.category === oldName ? { ...b, category: trimmed } : b));
+        commitChange('重命名分类', s => ({
+          budgetCategoryList: s.budgetCategoryList.map(c => c === oldName ? trimmed : c),
+          budgets: s.budgets.map(b => b.category === oldName ? { ...b, category: trimmed } : b),
+          customCategoryColors: renameColor(s.customCategoryColors)
+        }));
+        setRecurringRules(prev => prev.map(r => r.category === oldName ? { ...r, category: trimmed } : r));
         if (selectedBudgetCategory === oldName) setSelectedBudgetCategory(trimmed);
       } else {
-        setAssetCategoryList(assetCategoryList.map(c => c === oldName ? trimmed : c));
-        setAssets(assets.map(a => a.category === (oldName as AssetCategory) ? { ...a, category: trimmed as AssetCategory } : a));
+        commitChange('重命名分类', s => ({
+          assetCategoryList: s.assetCategoryList.map(c => c === oldName ? trimmed : c),
+          assets: s.assets.map(a => a.category === (oldName as AssetCategory) ? { ...a, category: trimmed as AssetCategory } : a),
+          customCategoryColors: renameColor(s.customCategoryColors)
+        }));
         if (selectedAssetCategory === oldName) setSelectedAssetCategory(trimmed);
       }
-      setCustomCategoryColors(prev => {
-        const next = { ...prev };
-        next[trimmed] = next[oldName] || themeColor;
-        delete next[oldName];
-        return next;
-      });
     }
   };
 
   const handleDeleteCategoryAction = (name: string, type: 'asset' | 'budget') => {
-    if (!confirm(`确定要删除分类 "${name}" 吗？该分类下的项目将移动到 "其他"。`)) return;
+    // 该分类下的项目移动到"其他"，可通过提示条撤销
+    const toast = `已删除分类「${name}」`;
     if (type === 'budget') {
-      setBudgetCategoryList(budgetCategoryList.filter(c => c !== name));
-      setBudgets(budgets.map(b => b.category === name ? { ...b, category: '其他' } : b));
+      commitChange('删除分类', s => ({
+        budgetCategoryList: s.budgetCategoryList.filter(c => c !== name),
+        budgets: s.budgets.map(b => b.category === name ? { ...b, category: '其他' } : b)
+      }), { toast });
       if (selectedBudgetCategory === name) setSelectedBudgetCategory('全部');
     } else {
-      setAssetCategoryList(assetCategoryList.filter(c => c !== name));
-      setAssets(assets.map(a => a.category === (name as AssetCategory) ? { ...a, category: '其他' as AssetCategory } : a));
+      commitChange('删除分类', s => ({
+        assetCategoryList: s.assetCategoryList.filter(c => c !== name),
+        assets: s.assets.map(a => a.category === (name as AssetCategory) ? { ...a, category: '其他' as AssetCategory } : a)
+      }), { toast });
       if (selectedAssetCategory === name) setSelectedAssetCategory('全部');
     }
   };
@@ -401,20 +775,17 @@ export const App: React.FC = () => {
     if (viewingTransactionsIndex === null) return;
     const amount = parseFloat(newTransactionAmount);
     if (!isNaN(amount) && amount !== 0) {
-      const newTransaction: Transaction = {
+      const [y, m, d] = newTransactionDate.split('-').map(Number);
+      handleAddTransaction(viewingTransactionsIndex, {
         id: Date.now().toString(),
         amount: amount,
-        date: new Date().toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' }),
+        date: y ? toTransactionTimestamp(new Date(y, m - 1, d)) : new Date().toISOString(),
         note: newTransactionNote || '补录账单'
-      };
-      const currentBudget = budgets[viewingTransactionsIndex];
-      handleUpdateBudget(viewingTransactionsIndex, { 
-        spentThisMonth: currentBudget.spentThisMonth + amount,
-        transactions: [newTransaction, ...(currentBudget.transactions || [])]
       });
       setIsAddingTransaction(false);
       setNewTransactionAmount('');
       setNewTransactionNote('');
+      setNewTransactionDate('');
     }
   };
 
@@ -422,22 +793,223 @@ export const App: React.FC = () => {
     if (quickAddIndex !== null) {
       const amount = parseFloat(quickAmount);
       if (!isNaN(amount)) {
-        const currentBudget = budgets[quickAddIndex];
-        handleUpdateBudget(quickAddIndex, { 
-          spentThisMonth: currentBudget.spentThisMonth + amount,
-          transactions: [{ id: Date.now().toString(), amount, date: new Date().toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' }), note: '快速记录' }, ...(currentBudget.transactions || [])]
-        });
+        handleAddTransaction(quickAddIndex, { id: Date.now().toString(), amount, date: new Date().toISOString(), note: '快速记录' });
       }
     }
     setQuickAddIndex(null);
     setQuickAmount('');
   };
 
-  const handleCopyBackup = () => {
-    const data = { assets, budgets, budgetCategoryList, assetCategoryList, themeColor, customCategoryColors };
-    const jsonString = JSON.stringify(data, null, 2);
-    setBackupText(jsonString);
-    navigator.clipboard.writeText(jsonString).then(() => alert('备份已复制'));
+  const handleImportNav = async (file: File, assetId?: string) => {
+    let series: NavSeries;
+    try {
+      series = await readNavFile(file);
+    } catch (e) {
+      alert(`净值文件读取失败：${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (series.points.length === 0) {
+      alert(series.errors[0] || '文件中没有净值数据');
+      return;
+    }
+    const code = assetId ? undefined : (series.code || prompt('未能从文件识别基金代码，请输入：')?.trim());
+    const targets = assets.filter(a => a.holding && (assetId ? a.id === assetId : !!code && a.holding.code === code));
+    if (targets.length === 0) {
+      alert(`没有找到代码为 ${code || '（未识别）'} 的持仓账户`);
+      return;
+    }
+    commitChange('导入基金净值', s => ({
+      assets: targets.reduce((next, a) => {
+        const { holding, backfill } = applyNavSeries(a.holding!, series.points);
+        return updateAssetIn(next, a.id, { holding }, backfill);
+      }, s.assets)
+    }), { source: 'import' });
+    alert(`已为「${targets.map(a => a.name).join('、')}」导入 ${series.points.length} 个净值点${series.errors.length > 0 ? `，跳过 ${series.errors.length} 条无效记录` : ''}`);
+  };
+
+  const handleAddRate = () => {
+    const rate = parseFloat(newRate.rate);
+    if (!(rate > 0)) return;
+    const date = newRate.date || new Date().toISOString().split('T')[0];
+    setExchangeRates(prev => upsertRates(prev, [{ currency: newRate.currency, date, rate }]));
+    setNewRate(prev => ({ ...prev, rate: '' }));
+  };
+
+  const handleImportRates = async (file: File) => {
+    let parsed: ReturnType<typeof parseRateCSV>;
+    try {
+      parsed = parseRateCSV(await file.text());
+    } catch (e) {
+      alert(`汇率文件读取失败：${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const { rates, errors } = parsed;
+    if (rates.length > 0) setExchangeRates(prev => upsertRates(prev, rates));
+    alert(`已导入 ${rates.length} 条汇率${errors.length > 0 ? `，${errors.length} 行无法识别：\n${errors.slice(0, 5).join('\n')}` : ''}`);
+  };
+
+  // 填写了备份口令时导出加密文件，恢复时须提供同一口令
+  const handleDownloadBackup = async () => {
+    const data = createBackup({ assets, budgets, budgetCategoryList, assetCategoryList, themeColor, customCategoryColors, exchangeRates, baseCurrency, savingsGoals, recurringRules, transfers, chartAnnotations });
+    const text = JSON.stringify(data, null, 2);
+    const date = new Date().toISOString().split('T')[0];
+    if (!backupPassphrase) {
+      downloadFile(`资产备份_${date}.json`, text, 'application/json');
+      return;
+    }
+    if (!isEncryptionSupported()) {
+      alert('当前浏览器环境不支持加密（需通过 HTTPS 或 localhost 打开），请清空备份口令后导出未加密的备份');
+      return;
+    }
+    try {
+      downloadFile(`资产备份_${date}_已加密.json`, await encryptBackupText(backupPassphrase, text), 'application/json');
+    } catch (e) {
+      alert(`备份加密失败：${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleRestoreBackup = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      setRestoreErrors([e instanceof Error ? e.message : String(e)]);
+      return;
+    }
+    if (isEncryptedBackup(text)) {
+      const passphrase = backupPassphrase || prompt('该备份已加密，请输入备份口令：');
+      if (!passphrase) return;
+      try {
+        text = await decryptBackupText(text, passphrase);
+      } catch (e) {
+        setRestoreErrors([e instanceof Error ? e.message : String(e)]);
+        return;
+      }
+    }
+    const result = parseBackup(text);
+    if ('errors' in result) {
+      setRestoreErrors(result.errors);
+      return;
+    }
+    const current = { assets, budgets, budgetCategoryList, assetCategoryList, themeColor, customCategoryColors, exchangeRates, baseCurrency, savingsGoals, recurringRules, transfers, chartAnnotations };
+    const next = restoreMode === 'merge' ? mergeBackup(current, result.data) : replaceBackup(result.data);
+    if (!confirm(restoreMode === 'merge' ? `将合并 ${result.data.assets.length} 个账户与 ${result.data.budgets.length} 项预算，确定继续吗？` : '将用备份替换当前全部数据，确定继续吗？')) return;
+    commitChange(restoreMode === 'merge' ? '合并备份' : '恢复备份', () => ({
+      assets: next.assets,
+      budgets: migrateBudgets(next.budgets, currentMonth),
+      budgetCategoryList: next.budgetCategoryList,
+      assetCategoryList: next.assetCategoryList,
+      customCategoryColors: next.customCategoryColors,
+      transfers: next.transfers
+    }), { source: 'restore', toast: '已恢复备份' });
+    setThemeColor(next.themeColor);
+    setExchangeRates(next.exchangeRates);
+    setBaseCurrency(next.baseCurrency);
+    setSavingsGoals(next.savingsGoals);
+    setRecurringRules(next.recurringRules);
+    setChartAnnotations(next.chartAnnotations);
+    // 规则已不存在的待补记期数一并移除
+    setRecurringQueue(prev => prev.filter(o => next.recurringRules.some(r => r.id === o.ruleId)));
+    setRestoreErrors([]);
+    alert(result.migratedFrom < result.data.version ? `恢复成功（已从 v${result.migratedFrom} 格式升级）` : '恢复成功');
+  };
+
+  // 记下本机各记录开始修改的时间，同步冲突时据此判断哪一方较晚
+  useEffect(() => {
+    if (syncSettings) setSyncMeta(prev => trackLocalChanges(prev, assets, budgets));
+  }, [assets, budgets, syncSettings]);
+
+  const syncMetaRef = useRef(syncMeta);
+  syncMetaRef.current = syncMeta;
+  const syncingRef = useRef(false);
+
+  const handleSync = useCallback(async () => {
+    if (!syncSettings || syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncStatus({ state: 'syncing' });
+    try {
+      const { assets: startAssets, budgets: startBudgets } = financeRef.current;
+      const result = await runSync(syncSettings, trackLocalChanges(syncMetaRef.current, startAssets, startBudgets), startAssets, startBudgets);
+      if (result.updates.length > 0) {
+        const from = result.devices.length > 0 ? `（${result.devices.join('、')}）` : '';
+        commitChange(`同步${from}`, s => withSyncedCategories(s, applyRecordUpdates(s.assets, s.budgets, result.updates)), { source: 'sync' });
+      }
+      if (result.notes.length > 0) {
+        setAuditLog(prev => appendAuditEntry(prev, createAuditEntry({ id: `${Date.now()}-sync`, action: '同步冲突', source: 'sync' }, result.notes.map(note => ({ target: '同步', field: note })))));
+      }
+      setSyncMeta(result.meta);
+      setSyncStatus({ state: 'idle', notes: result.notes });
+    } catch (e) {
+      setSyncStatus({ state: 'error', message: e instanceof Error ? e.message : String(e) });
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [syncSettings, commitChange]);
+
+  // 连接后立即同步一次，之后定时并在窗口重新获得焦点时同步
+  useEffect(() => {
+    if (!syncSettings) return;
+    handleSync();
+    const timer = setInterval(handleSync, SYNC_INTERVAL_MS);
+    window.addEventListener('focus', handleSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', handleSync);
+    };
+  }, [syncSettings, handleSync]);
+
+  const handleConnectSync = async (settings: SyncSettings) => {
+    setSyncStatus({ state: 'syncing' });
+    try {
+      const status = await fetchSyncStatus(settings);
+      if (status.records > 0 && !confirm('服务器上已有数据，将用服务器上的资产与预算替换本机数据（可在操作记录中撤销），确定继续吗？')) {
+        setSyncStatus({ state: 'idle' });
+        return;
+      }
+      const backup = createBackup({ assets, budgets, budgetCategoryList, assetCategoryList, themeColor, customCategoryColors, exchangeRates, baseCurrency, savingsGoals, recurringRules, transfers, chartAnnotations });
+      const result = await connectSync(settings, backup);
+      if (!result.seeded) {
+        commitChange('连接家庭同步', s => withSyncedCategories(s, { assets: result.assets, budgets: result.budgets }), { source: 'sync' });
+      }
+      setSyncMeta(result.meta);
+      setSyncSettings(settings);
+      setSyncStatus({ state: 'idle' });
+    } catch (e) {
+      setSyncStatus({ state: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const handleSetPassphrase = useCallback(async (passphrase: string | null) => {
+    await repository.setPassphrase(passphrase, financeRef.current.assets, financeRef.current.budgets);
+    setIsEncrypted(repository.isEncrypted());
+  }, [repository]);
+
+  // 丢弃内存中的密钥与数据，重新载入后显示锁屏
+  const handleLock = useCallback(() => window.location.reload(), []);
+
+  const handleDisconnectSync = () => {
+    setSyncSettings(null);
+    setSyncMeta(EMPTY_SYNC_META);
+    setSyncStatus({ state: 'idle' });
+  };
+
+  const handleExport = (kind: 'assets' | 'history' | 'budgets' | 'transactions' | 'workbook' | 'report') => {
+    const stamp = new Date().toISOString().split('T')[0];
+    const csvMime = 'text/csv;charset=utf-8';
+    switch (kind) {
+      case 'assets': return downloadFile(`资产_${stamp}.csv`, toCSV(buildAssetRows(assets)), csvMime);
+      case 'history': return downloadFile(`资产历史_${stamp}.csv`, toCSV(buildAssetHistoryRows(assets)), csvMime);
+      case 'budgets': return downloadFile(`预算_${stamp}.csv`, toCSV(buildBudgetRows(budgets, currentMonth)), csvMime);
+      case 'transactions': return downloadFile(`流水_${stamp}.csv`, toCSV(buildTransactionRows(budgets, currentMonth)), csvMime);
+      case 'workbook': return downloadFile(`资产与预算_${stamp}.xls`, toSpreadsheetML([
+        { name: '资产', rows: buildAssetRows(assets) },
+        { name: '资产历史', rows: buildAssetHistoryRows(assets) },
+        { name: '预算', rows: buildBudgetRows(budgets, currentMonth) },
+        { name: '流水', rows: buildTransactionRows(budgets, currentMonth) },
+        ...buildMonthlyReport(baseAssets, budgets, reportMonth, currentMonth).map(s => ({ ...s, name: `${reportMonth} ${s.name}` }))
+      ]), 'application/vnd.ms-excel');
+      case 'report': return downloadFile(`月度报告_${reportMonth}.csv`, sheetsToCSV(buildMonthlyReport(baseAssets, budgets, reportMonth, currentMonth)), csvMime);
+    }
   };
 
   const isThemeDark = isDarkColor(themeColor);
@@ -464,24 +1036,48 @@ export const App: React.FC = () => {
                   <div className="flex justify-between items-start relative z-10">
                     <h2 className="text-white/60 text-[10px] font-black uppercase tracking-widest">净资产</h2>
                     <div className="flex gap-2">
+                      <button onClick={() => setPrivacyMode(!privacyMode)} title={privacyMode ? '显示金额' : '隐私模式'} className="h-8 w-8 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-[2px] border border-white/10">{privacyMode ? <Icons.EyeOff className="w-4 h-4" /> : <Icons.Eye className="w-4 h-4" />}</button>
                       <button onClick={() => setShowDistribution('asset')} className="h-8 w-8 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-[2px] border border-white/10"><Icons.Target className="w-4 h-4" /></button>
                       <button onClick={() => setShowGlobalChart(true)} className="h-8 w-8 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-[2px] border border-white/10"><Icons.Chart className="w-4 h-4" /></button>
                     </div>
                   </div>
-                  <div className="font-mono font-black text-4xl tracking-tighter relative z-10">
-                    ¥{stats.netWorth.toLocaleString()}
+                  <div onClick={() => setIsAmountRevealed(true)} className="font-mono font-black text-4xl tracking-tighter relative z-10">
+                    {baseSymbol}{showAmount(stats.netWorth.toLocaleString())}
                   </div>
                   <div className="grid grid-cols-2 gap-3 border-t border-white/10 pt-3 relative z-10">
                     <div>
                       <span className="text-[8px] font-black text-white/50 uppercase block">资产</span>
-                      <span className="text-sm font-bold">¥{stats.totalAssets.toLocaleString()}</span>
+                      <span className="text-sm font-bold">{baseSymbol}{showAmount(stats.totalAssets.toLocaleString())}</span>
                     </div>
                     <div className="text-right">
                       <span className="text-[8px] font-black text-white/50 uppercase block">负债</span>
-                      <span className="text-sm font-bold text-rose-200">¥{stats.totalLiabilities.toLocaleString()}</span>
+                      <span className="text-sm font-bold text-rose-200">{baseSymbol}{showAmount(stats.totalLiabilities.toLocaleString())}</span>
                     </div>
                   </div>
                 </section>
+                {upcomingPayments.length > 0 && (
+                  <div className="mt-4 flex gap-2 overflow-x-auto no-scrollbar">
+                    {upcomingPayments.map(p => (
+                      <button
+                        key={`${p.assetId}-${p.kind}`}
+                        onClick={() => setViewingAssetChart(assets.find(a => a.id === p.assetId) || null)}
+                        className={`flex-shrink-0 text-left px-3 py-2 rounded-[2px] border ${p.isReminder ? 'bg-rose-50 border-rose-200' : 'bg-white border-slate-200'}`}
+                      >
+                        <span className={`block text-[9px] font-black uppercase tracking-widest ${p.isReminder ? 'text-rose-500' : 'text-slate-400'}`}>
+                          {p.name} · {p.daysLeft < 0 ? `逾期 ${-p.daysLeft} 天` : p.daysLeft === 0 ? '今天到期' : `${p.daysLeft} 天后`}
+                        </span>
+                        <span className="text-[12px] font-mono font-black text-slate-900">{formatMoney(p.amount, p.currency)}</span>
+                        <span className="text-[9px] font-mono font-bold text-slate-400 ml-1.5">{p.dueDate.slice(5)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-4">
+                  <AIInsightPanel assets={baseAssets} budgets={budgets} service={insightService} cached={aiInsightCache} onResult={setAiInsightCache} themeColor={themeColor} />
+                </div>
+                <div className="mt-4">
+                  <SavingsGoals goals={savingsGoals} assets={baseAssets} baseCurrency={baseCurrency} themeColor={themeColor} onChange={setSavingsGoals} />
+                </div>
               </div>
               <div className="lg:col-span-2">
                 <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-4 gap-4">
@@ -489,9 +1085,14 @@ export const App: React.FC = () => {
                     <h2 className="text-lg font-black text-slate-900 uppercase tracking-tighter">账户清单</h2>
                     <FilterBar selected={selectedAssetCategory} onSelect={setSelectedAssetCategory} categories={assetCategoryList} onAdd={handleAddAssetCategory} themeColor={themeColor} isThemeDark={isThemeDark} onLongPress={(name: any, type: any) => setCategoryAction({name, type})} />
                   </div>
-                  <button onClick={() => setIsModalOpen(true)} className="flex items-center justify-center gap-2 text-white px-5 h-10 rounded-[2px] text-[10px] font-black uppercase tracking-widest shadow-md active:scale-95 md:mt-6" style={{ backgroundColor: themeColor }}>
-                    <Icons.Plus className="w-4 h-4" /> <span>新增账户</span>
-                  </button>
+                  <div className="flex gap-2 md:mt-6">
+                    <button onClick={() => setTransferFromId('')} className="flex-1 flex items-center justify-center px-5 h-10 bg-white border border-slate-200 text-slate-600 rounded-[2px] text-[10px] font-black uppercase tracking-widest shadow-sm active:scale-95">
+                      <span>转账</span>
+                    </button>
+                    <button onClick={() => setIsModalOpen(true)} className="flex-1 flex items-center justify-center gap-2 text-white px-5 h-10 rounded-[2px] text-[10px] font-black uppercase tracking-widest shadow-md active:scale-95" style={{ backgroundColor: themeColor }}>
+                      <Icons.Plus className="w-4 h-4" /> <span>新增账户</span>
+                    </button>
+                  </div>
                 </div>
                 <div className="space-y-8">
                   {assetCategoryList.filter(c => selectedAssetCategory === '全部' || c === selectedAssetCategory).map(cat => {
@@ -510,12 +1111,15 @@ export const App: React.FC = () => {
                               key={asset.id} 
                               asset={asset} 
                               categoryColor={customCategoryColors[asset.category]} 
-                              onDelete={(id) => setAssets(prev => prev.filter(a => a.id !== id))} 
+                              onDelete={handleDeleteAsset} 
                               onUpdate={handleUpdateAsset} 
                               onShowChart={setViewingAssetChart} 
                               onEditFull={(item) => setEditingAsset(item)}
                               onVisible={onAssetVisible} 
                               isSmallMode={isSmallCardMode} 
+                              isPrivate={privacyMode}
+                              baseCurrency={baseCurrency}
+                              convertedValue={(asset.currency || BASE_CURRENCY) !== baseCurrency ? baseAssets.find(a => a.id === asset.id)?.value : undefined}
                             />
                           ))}
                         </div>
@@ -539,23 +1143,24 @@ export const App: React.FC = () => {
                     <h2 className="text-white/60 text-[10px] font-black uppercase tracking-widest">预算余额</h2>
                     <div className="flex gap-2">
                         <button onClick={() => setShowDistribution('budget')} className="h-8 w-8 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-[2px] border border-white/10"><Icons.Target className="w-4 h-4" /></button>
+                        <button onClick={() => setShowBudgetHistory(true)} className="h-8 w-8 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-[2px] border border-white/10"><Icons.Chart className="w-4 h-4" /></button>
                     </div>
                   </div>
-                  <div className="font-mono font-black text-4xl tracking-tighter relative z-10">
-                    ¥{budgetStats.remaining.toLocaleString()}
+                  <div onClick={() => setIsAmountRevealed(true)} className="font-mono font-black text-4xl tracking-tighter relative z-10">
+                    ¥{showAmount(budgetStats.remaining.toLocaleString())}
                   </div>
                   <div className="grid grid-cols-2 gap-3 border-t border-white/10 pt-3 relative z-10">
-                    <div onClick={() => { setIsEditingTotalLimit(true); setTempTotalLimit(budgetStats.limit.toString()); }} className="cursor-pointer hover:bg-white/5 rounded px-1 -ml-1 transition-colors">
+                    <div onClick={() => { if (privacyMode && !isAmountRevealed) { setIsAmountRevealed(true); return; } setIsEditingTotalLimit(true); setTempTotalLimit(budgetStats.limit.toString()); }} className="cursor-pointer hover:bg-white/5 rounded px-1 -ml-1 transition-colors">
                       <span className="text-[8px] font-black text-white/50 uppercase block">总额</span>
                       {isEditingTotalLimit ? (
                         <input autoFocus type="number" value={tempTotalLimit} onChange={e => setTempTotalLimit(e.target.value)} onBlur={() => { handleUpdateBudget(budgets.findIndex(b => b.category === '总计'), { monthlyAmount: parseFloat(tempTotalLimit) || 0 }); setIsEditingTotalLimit(false); }} className="w-full bg-white/20 text-white font-bold text-sm rounded outline-none" />
                       ) : (
-                        <span className="text-sm font-bold">¥{budgetStats.limit.toLocaleString()}</span>
+                        <span className="text-sm font-bold">¥{showAmount(budgetStats.limit.toLocaleString())}</span>
                       )}
                     </div>
                     <div className="text-right">
-                      <span className="text-[8px] font-black text-white/50 uppercase block">已支出</span>
-                      <span className="text-sm font-bold">¥{budgetStats.spent.toLocaleString()}</span>
+                      <span className="text-[8px] font-black text-white/50 uppercase block">已支出 · 结转 {showAmount(`${budgetStats.carryOver >= 0 ? '+' : ''}${budgetStats.carryOver.toLocaleString()}`)}</span>
+                      <span className="text-sm font-bold">¥{showAmount(budgetStats.spent.toLocaleString())}</span>
                     </div>
                   </div>
                 </section>
@@ -566,10 +1171,29 @@ export const App: React.FC = () => {
                     <h2 className="text-lg font-black text-slate-900 uppercase tracking-tighter">预算计划</h2>
                     <FilterBar selected={selectedBudgetCategory} onSelect={setSelectedBudgetCategory} categories={budgetCategoryList} onAdd={handleAddBudgetCategory} themeColor={themeColor} isThemeDark={isThemeDark} onLongPress={(name: any, type: any) => setCategoryAction({name, type})} />
                   </div>
-                  <button onClick={() => { const newBudget = { category: budgetCategoryList[0] || '生活', subCategory: '新项目', monthlyAmount: 0, spentThisMonth: 0, carryOver: 0, color: themeColor, transactions: [] }; setBudgets([...budgets, newBudget]); setTimeout(() => { setEditingBudgetIndex(budgets.length); setShowBudgetColorPicker(false); }, 0); }} className="flex items-center justify-center gap-2 text-white px-5 h-10 rounded-[2px] text-[10px] font-black uppercase tracking-widest shadow-md active:scale-95 md:mt-6" style={{ backgroundColor: themeColor }}>
+                  <button onClick={handleAddBudget} className="flex items-center justify-center gap-2 text-white px-5 h-10 rounded-[2px] text-[10px] font-black uppercase tracking-widest shadow-md active:scale-95 md:mt-6" style={{ backgroundColor: themeColor }}>
                     <Icons.Plus className="w-4 h-4" /> <span>新增预算</span>
                   </button>
                 </div>
+                <QuickEntryBar
+                  budgets={budgets}
+                  pendingEntries={pendingEntries}
+                  themeColor={themeColor}
+                  onSubmit={handleQuickEntry}
+                  onResolvePending={handleResolvePending}
+                  onDiscardPending={(id) => setPendingEntries(prev => prev.filter(p => p.id !== id))}
+                />
+                <RecurringRules
+                  rules={recurringRules}
+                  queue={recurringQueue}
+                  budgets={budgets}
+                  assets={assets}
+                  themeColor={themeColor}
+                  onSave={handleSaveRecurringRule}
+                  onDelete={handleDeleteRecurringRule}
+                  onConfirm={handleConfirmOccurrences}
+                  onSkip={(id) => setRecurringQueue(prev => prev.filter(o => o.id !== id))}
+                />
                 <div className="space-y-8">
                   {budgetCategoryList.filter(c => selectedBudgetCategory === '全部' || c === selectedBudgetCategory).map(cat => {
                     const items = budgets.filter(b => b.category === cat);
@@ -593,6 +1217,7 @@ export const App: React.FC = () => {
                                 onQuickAdd={setQuickAddIndex} 
                                 onViewTransactions={setViewingTransactionsIndex} 
                                 isSmallMode={isSmallCardMode} 
+                                isPrivate={privacyMode}
                             />
                           ))}
                         </div>
@@ -626,7 +1251,96 @@ export const App: React.FC = () => {
                   </button>
                 </div>
               </section>
+              <section className="pt-6 border-t border-slate-100">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-xs font-black uppercase tracking-widest">隐私模式</h4>
+                    <p className="text-[10px] font-bold text-slate-400">隐藏卡片与汇总中的金额，点击金额临时显示</p>
+                  </div>
+                  <button onClick={() => setPrivacyMode(!privacyMode)} className={`w-12 h-6 rounded-full relative transition-colors ${privacyMode ? 'bg-slate-900' : 'bg-slate-200'}`}>
+                    <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all ${privacyMode ? 'left-7' : 'left-1'}`} />
+                  </button>
+                </div>
+              </section>
+              <section className="pt-6 border-t border-slate-100">
+                <SecurityPanel isEncrypted={isEncrypted} isSupported={repository.backend === 'indexeddb' && isEncryptionSupported()} themeColor={themeColor} onSetPassphrase={handleSetPassphrase} onLock={handleLock} />
+              </section>
               
+              <section className="pt-6 border-t border-slate-100 space-y-3">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">AI 分析服务</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { id: 'rules', label: '离线规则' },
+                    { id: 'openai', label: 'OpenAI 兼容' },
+                    { id: 'gemini', label: 'Gemini' }
+                  ] as { id: LLMProviderKind, label: string }[]).map(p => (
+                    <button key={p.id} onClick={() => setLlmSettings(prev => ({ ...prev, provider: p.id, model: prev.provider === p.id ? prev.model : '' }))} style={{ backgroundColor: llmSettings.provider === p.id ? themeColor : undefined, color: llmSettings.provider === p.id ? (isThemeDark ? 'white' : '#0f172a') : undefined }} className="py-2 text-[10px] font-black uppercase rounded-[4px] border border-slate-200 text-slate-500">{p.label}</button>
+                  ))}
+                </div>
+                {llmSettings.provider === 'openai' && (
+                  <input type="text" value={llmSettings.endpoint} onChange={e => setLlmSettings(prev => ({ ...prev, endpoint: e.target.value }))} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-mono rounded-[4px] outline-none" placeholder={DEFAULT_OPENAI_ENDPOINT} />
+                )}
+                {llmSettings.provider !== 'rules' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <input type="text" value={llmSettings.model} onChange={e => setLlmSettings(prev => ({ ...prev, model: e.target.value }))} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-mono rounded-[4px] outline-none" placeholder={DEFAULT_MODELS[llmSettings.provider]} />
+                    <input type="password" value={llmSettings.apiKey} onChange={e => setLlmSettings(prev => ({ ...prev, apiKey: e.target.value }))} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-mono rounded-[4px] outline-none" placeholder={llmSettings.provider === 'gemini' ? 'API Key' : 'API Key（可选）'} />
+                  </div>
+                )}
+                <p className="text-[10px] font-bold text-slate-400">{llmSettings.provider === 'rules' ? '按固定规则在本地分析，无需联网' : '密钥仅保存在本机浏览器中；调用失败时自动退回离线规则分析'}</p>
+              </section>
+
+              <section className="pt-6 border-t border-slate-100 space-y-3">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">本位币与汇率</label>
+                <div className="grid grid-cols-6 gap-2">
+                  {CURRENCIES.map(c => (
+                    <button key={c.code} onClick={() => setBaseCurrency(c.code)} title={c.name} style={{ backgroundColor: baseCurrency === c.code ? themeColor : undefined, color: baseCurrency === c.code ? (isThemeDark ? 'white' : '#0f172a') : undefined }} className="py-2 text-[10px] font-black uppercase rounded-[4px] border border-slate-200 text-slate-500">{c.code}</button>
+                  ))}
+                </div>
+                {missingCurrencies.length > 0 && (
+                  <p className="text-[10px] font-bold text-amber-600 bg-amber-50 border border-amber-100 rounded-[2px] px-3 py-2">缺少 {missingCurrencies.join('、')} 的汇率，暂按 1:1 折算</p>
+                )}
+                <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                  {exchangeRates.length === 0 && <p className="text-[10px] font-bold text-slate-400 py-2 text-center">尚未录入汇率</p>}
+                  {exchangeRates.map(r => (
+                    <div key={`${r.currency}-${r.date}`} className="flex items-center gap-3 px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-[2px]">
+                      <span className="text-[10px] font-black w-10">{r.currency}</span>
+                      <span className="text-[10px] font-mono font-bold text-slate-400 flex-1">{r.date}</span>
+                      <span className="text-[11px] font-mono font-black">{r.rate}</span>
+                      <button onClick={() => setExchangeRates(prev => prev.filter(x => x !== r))} className="text-[10px] font-black text-rose-400 hover:text-rose-600">删除</button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <select value={newRate.currency} onChange={e => setNewRate(prev => ({ ...prev, currency: e.target.value }))} className="px-2 py-2 bg-slate-50 border border-slate-200 text-[10px] font-bold rounded-[4px] outline-none">
+                    {CURRENCIES.filter(c => c.code !== BASE_CURRENCY).map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                  </select>
+                  <input type="date" value={newRate.date} onChange={e => setNewRate(prev => ({ ...prev, date: e.target.value }))} className="flex-1 min-w-0 px-2 py-2 bg-slate-50 border border-slate-200 text-[10px] font-mono rounded-[4px] outline-none" />
+                  <input type="number" step="0.0001" value={newRate.rate} onChange={e => setNewRate(prev => ({ ...prev, rate: e.target.value }))} onKeyDown={e => e.key === 'Enter' && handleAddRate()} className="w-24 px-2 py-2 bg-slate-50 border border-slate-200 text-[10px] font-mono rounded-[4px] outline-none" placeholder="兑人民币" />
+                  <button onClick={handleAddRate} style={{ backgroundColor: themeColor }} className="px-4 text-white font-black text-[10px] uppercase rounded-[4px]">添加</button>
+                </div>
+                <label className="block w-full py-3 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200 hover:bg-slate-100 text-center cursor-pointer">
+                  从 CSV 导入汇率（日期, 币种, 汇率）
+                  <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportRates(file); }} />
+                </label>
+                <p className="text-[10px] font-bold text-slate-400">汇率为 1 单位外币折合人民币；历史数值按当日或之前最近一次的汇率折算</p>
+              </section>
+
+              <section className="pt-6 border-t border-slate-100">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-xs font-black uppercase tracking-widest">还款提醒通知</h4>
+                    <p className="text-[10px] font-bold text-slate-400">信用卡与贷款到期前通过系统通知提醒</p>
+                  </div>
+                  <button
+                    onClick={() => typeof Notification !== 'undefined' && Notification.requestPermission().then(setNotificationPermission)}
+                    disabled={notificationPermission !== 'default'}
+                    className="px-4 py-2 border border-slate-200 bg-slate-50 text-slate-600 font-black text-[10px] uppercase rounded-[4px] hover:bg-slate-100 active:scale-95 transition-all disabled:opacity-60"
+                  >
+                    {notificationPermission === 'granted' ? '已开启' : notificationPermission === 'denied' ? '已被浏览器阻止' : '开启通知'}
+                  </button>
+                </div>
+              </section>
+
               <section className="pt-6 border-t border-slate-100">
                  <div className="flex items-center justify-between">
                     <div>
@@ -638,13 +1352,86 @@ export const App: React.FC = () => {
                  </div>
               </section>
 
+              <section className="pt-6 border-t border-slate-100">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-xs font-black uppercase tracking-widest">导入账单</h4>
+                    <p className="text-[10px] font-bold text-slate-400">支付宝 / 微信支付 / 银行 CSV 账单</p>
+                  </div>
+                  <button onClick={() => setShowCsvImport(true)} className="px-4 py-2 border border-slate-200 bg-slate-50 text-slate-600 font-black text-[10px] uppercase rounded-[4px] hover:bg-slate-100 active:scale-95 transition-all">
+                    选择文件
+                  </button>
+                </div>
+                <div className="flex items-center justify-between mt-4">
+                  <div>
+                    <h4 className="text-xs font-black uppercase tracking-widest">导入基金净值</h4>
+                    <p className="text-[10px] font-bold text-slate-400">CSV / JSON 净值序列，按基金代码更新持仓账户</p>
+                  </div>
+                  <label className="px-4 py-2 border border-slate-200 bg-slate-50 text-slate-600 font-black text-[10px] uppercase rounded-[4px] hover:bg-slate-100 active:scale-95 transition-all cursor-pointer">
+                    选择文件
+                    <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportNav(file); }} />
+                  </label>
+                </div>
+              </section>
+
+              <section className="pt-6 border-t border-slate-100 space-y-3">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">导出表格</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { kind: 'assets', label: '资产 CSV' },
+                    { kind: 'history', label: '资产历史 CSV' },
+                    { kind: 'budgets', label: '预算 CSV' },
+                    { kind: 'transactions', label: '全部流水 CSV' }
+                  ] as const).map(item => (
+                    <button key={item.kind} onClick={() => handleExport(item.kind)} className="py-3 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200 hover:bg-slate-100">{item.label}</button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <select value={reportMonth} onChange={e => setReportMonth(e.target.value)} className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 text-[10px] font-bold rounded-[4px] outline-none">
+                    {getRecentMonths(currentMonth, 24).reverse().map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                  <button onClick={() => handleExport('report')} className="flex-1 py-3 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200 hover:bg-slate-100">导出月度报告</button>
+                </div>
+                <button onClick={() => handleExport('workbook')} style={{ backgroundColor: themeColor }} className="w-full py-3 text-white font-black text-[10px] uppercase rounded-[4px]">导出 Excel 工作簿（含所选月报）</button>
+              </section>
+
+              <section className="pt-6 border-t border-slate-100">
+                <SyncPanel settings={syncSettings} meta={syncMeta} status={syncStatus} themeColor={themeColor} onConnect={handleConnectSync} onSync={handleSync} onDisconnect={handleDisconnectSync} />
+              </section>
+
+              <section className="pt-6 border-t border-slate-100">
+                <AuditLogPanel entries={auditLog} undoLabel={undoLabels.undo} redoLabel={undoLabels.redo} themeColor={themeColor} onUndo={handleUndo} onRedo={handleRedo} onClear={() => setAuditLog([])} />
+              </section>
+
               <section className="pt-6 border-t border-slate-100 space-y-4">
                 <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">数据备份</label>
-                <textarea value={backupText} onChange={e => setBackupText(e.target.value)} className="w-full h-24 p-3 bg-slate-50 border border-slate-200 text-[10px] font-mono rounded-[4px] outline-none" placeholder="粘贴数据在此恢复..." />
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { id: 'replace', label: '替换全部数据' },
+                    { id: 'merge', label: '按账户合并' }
+                  ] as { id: BackupRestoreMode, label: string }[]).map(m => (
+                    <button key={m.id} onClick={() => setRestoreMode(m.id)} style={{ borderColor: restoreMode === m.id ? themeColor : undefined, color: restoreMode === m.id ? themeColor : undefined }} className="py-2 text-[10px] font-black uppercase rounded-[4px] border border-slate-200 text-slate-400">{m.label}</button>
+                  ))}
+                </div>
+                <input type="password" value={backupPassphrase} onChange={e => setBackupPassphrase(e.target.value)} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-bold rounded-[4px] outline-none" placeholder="备份口令（可选，填写后下载的备份文件将被加密）" />
                 <div className="flex gap-2">
-                  <button onClick={handleCopyBackup} className="flex-1 py-3 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200">生成并复制备份</button>
-                  <button onClick={() => { try { const d = JSON.parse(backupText); setAssets(d.assets); setBudgets(d.budgets); alert('恢复成功'); } catch(e) { alert('数据无效'); } }} style={{ backgroundColor: themeColor }} className="flex-1 py-3 text-white font-black text-[10px] uppercase rounded-[4px]">从文本恢复</button>
+                  <button onClick={handleDownloadBackup} className="flex-1 py-3 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200">下载备份文件</button>
+                  <label style={{ backgroundColor: themeColor }} className="flex-1 py-3 text-white font-black text-[10px] uppercase rounded-[4px] text-center cursor-pointer">
+                    从文件恢复
+                    <input type="file" accept=".json,application/json" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleRestoreBackup(file); }} />
+                  </label>
                 </div>
+                {restoreErrors.length > 0 && (
+                  <div className="p-3 bg-rose-50 border border-rose-100 rounded-[4px] space-y-1">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[10px] font-black text-rose-600 uppercase">备份校验失败（{restoreErrors.length} 处）</span>
+                      <button onClick={() => setRestoreErrors([])} className="text-[10px] font-bold text-rose-400">关闭</button>
+                    </div>
+                    <ul className="max-h-32 overflow-y-auto text-[10px] font-mono text-rose-500 space-y-0.5">
+                      {restoreErrors.map((err, i) => <li key={i}>{err}</li>)}
+                    </ul>
+                  </div>
+                )}
               </section>
             </div>
           </div>
@@ -665,6 +1452,25 @@ export const App: React.FC = () => {
         ))}
       </nav>
 
+      {/* 可撤销提示 */}
+      {toast && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[140] flex items-center gap-2 pl-4 pr-2 h-11 bg-slate-900 text-white shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-200" style={{ borderRadius: '4px' }}>
+          <span className="text-[11px] font-bold whitespace-nowrap max-w-[60vw] truncate">{toast.message}</span>
+          <span className="text-white/30">·</span>
+          <button onClick={handleToastUndo} className="px-3 h-7 text-[10px] font-black uppercase tracking-widest rounded-[2px] bg-white/10 hover:bg-white/20" style={{ color: themeColor }}>撤销</button>
+        </div>
+      )}
+
+      {/* 新版本提示 */}
+      {applyUpdate && !toast && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[140] flex items-center gap-2 pl-4 pr-2 h-11 bg-slate-900 text-white shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-200" style={{ borderRadius: '4px' }}>
+          <span className="text-[11px] font-bold whitespace-nowrap">新版本已就绪</span>
+          <span className="text-white/30">·</span>
+          <button onClick={applyUpdate} className="px-3 h-7 text-[10px] font-black uppercase tracking-widest rounded-[2px] bg-white/10 hover:bg-white/20" style={{ color: themeColor }}>刷新</button>
+          <button onClick={() => setApplyUpdate(null)} className="px-2 h-7 text-[10px] font-black text-white/40 hover:text-white/70">稍后</button>
+        </div>
+      )}
+
       {/* 分类管理弹窗 */}
       {categoryAction && (
         <div className="fixed inset-0 z-[125] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm" onClick={() => setCategoryAction(null)}>
@@ -695,7 +1501,7 @@ export const App: React.FC = () => {
                       <Cell key={`cell-${index}`} fill={customCategoryColors[entry.name] || THEME_COLORS[index % THEME_COLORS.length]} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value: number) => [`¥${value.toLocaleString()}`, '金额']} contentStyle={{ borderRadius: '2px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', fontSize: '10px', fontWeight: 900 }} />
+                  <Tooltip formatter={(value: number) => [showDistribution === 'asset' ? formatMoney(value, baseCurrency) : `¥${value.toLocaleString()}`, '金额']} contentStyle={{ borderRadius: '2px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', fontSize: '10px', fontWeight: 900 }} />
                 </PieChart>
               </ResponsiveContainer>
             </div>
@@ -713,39 +1519,78 @@ export const App: React.FC = () => {
                      </div>
                      <div className="flex gap-8 items-center font-mono">
                        <span className="text-[10px] font-bold text-slate-400">{percent}%</span>
-                       <span className="text-[11px] font-black text-slate-900 w-20 text-right">¥{item.value.toLocaleString()}</span>
+                       <span className="text-[11px] font-black text-slate-900 w-20 text-right">{showDistribution === 'asset' ? baseSymbol : '¥'}{item.value.toLocaleString()}</span>
                      </div>
                    </div>
                  );
                })}
                <div className="flex justify-between items-center p-3 mt-4 transition-colors duration-500 rounded-[2px]" style={{ backgroundColor: themeColor, color: isThemeDark ? '#fff' : '#0f172a' }}>
                  <span className="text-[10px] font-black uppercase tracking-widest">总计</span>
-                 <span className="text-[12px] font-mono font-black">¥{(showDistribution === 'asset' ? assetDistributionData : budgetDistributionData).reduce((sum, i) => sum + i.value, 0).toLocaleString()}</span>
+                 <span className="text-[12px] font-mono font-black">{showDistribution === 'asset' ? baseSymbol : '¥'}{(showDistribution === 'asset' ? assetDistributionData : budgetDistributionData).reduce((sum, i) => sum + i.value, 0).toLocaleString()}</span>
                </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* 账单导入 */}
+      <CsvImportWizard
+        isOpen={showCsvImport}
+        onClose={() => setShowCsvImport(false)}
+        budgets={budgets}
+        themeColor={themeColor}
+        onCommit={(entries) => { commitChange('导入账单', s => ({ budgets: addTransactions(s.budgets, entries) }), { source: 'import' }); alert(`已导入 ${entries.length} 条流水`); }}
+      />
+
+      {/* 账户转账 */}
+      <TransferModal
+        isOpen={transferFromId !== null}
+        onClose={() => setTransferFromId(null)}
+        assets={assets}
+        exchangeRates={exchangeRates}
+        defaultFromId={transferFromId || undefined}
+        themeColor={themeColor}
+        onTransfer={handleTransfer}
+      />
+
+      {/* 预算历史弹窗 */}
+      <BudgetHistoryModal isOpen={showBudgetHistory} onClose={() => setShowBudgetHistory(false)} budgets={budgets} currentMonth={currentMonth} themeColor={themeColor} />
+
       {/* 资产趋势图弹窗 */}
       {(viewingAssetChart || showGlobalChart) && (
         <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md" onClick={() => { setViewingAssetChart(null); setShowGlobalChart(false); }}>
-          <div className="bg-white rounded-[4px] w-full max-w-2xl p-8 shadow-2xl border border-white/20" onClick={e => e.stopPropagation()}>
+          <div className="bg-white rounded-[4px] w-full max-w-2xl p-8 shadow-2xl border border-white/20 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
             <div className="flex justify-between items-start mb-8">
               <div>
-                <h2 className="text-2xl font-black uppercase tracking-tighter">{showGlobalChart ? '资产总额趋势' : viewingAssetChart?.name}</h2>
+                <h2 className="text-2xl font-black uppercase tracking-tighter">{showGlobalChart ? '资产总额趋势' : chartAsset?.name}</h2>
                 <p className="text-xs font-bold text-slate-400 mt-1">历史变动曲线</p>
               </div>
-              <button 
-                onClick={() => { setViewingAssetChart(null); setShowGlobalChart(false); }} 
-                className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-500 font-black text-[10px] uppercase tracking-widest rounded-[2px] transition-colors"
-              >
-                关闭
-              </button>
+              <div className="flex gap-2">
+                {!showGlobalChart && chartAsset && !chartAsset.holding && (
+                  <button onClick={() => setTransferFromId(chartAsset.id)} className="px-4 py-2 border border-slate-200 hover:bg-slate-50 text-slate-500 font-black text-[10px] uppercase tracking-widest rounded-[2px] transition-colors">转账</button>
+                )}
+                <button 
+                  onClick={() => { setViewingAssetChart(null); setShowGlobalChart(false); }} 
+                  className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-500 font-black text-[10px] uppercase tracking-widest rounded-[2px] transition-colors"
+                >
+                  关闭
+                </button>
+              </div>
             </div>
+            {showGlobalChart ? (
+              <NetWorthChart
+                series={globalHistory}
+                annotations={chartAnnotations}
+                categoryColors={customCategoryColors}
+                currency={baseCurrency}
+                themeColor={themeColor}
+                onAddAnnotation={(annotation) => setChartAnnotations(prev => [...prev, annotation])}
+                onDeleteAnnotation={(id) => setChartAnnotations(prev => prev.filter(a => a.id !== id))}
+              />
+            ) : (
             <div className="h-72 w-full mb-8">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={showGlobalChart ? globalHistory : (viewingAssetChart?.history || [])}>
+                <AreaChart data={chartAsset?.history || []}>
                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                   <XAxis dataKey="date" hide />
                   <YAxis hide mirror />
@@ -754,26 +1599,61 @@ export const App: React.FC = () => {
                 </AreaChart>
               </ResponsiveContainer>
             </div>
+            )}
+            {!showGlobalChart && chartAsset?.holding && (
+              <div className="border-t border-slate-100 pt-4">
+                <HoldingPanel holding={chartAsset.holding} currency={chartAsset.currency || BASE_CURRENCY} themeColor={themeColor} onChange={(holding) => handleUpdateAsset(chartAsset.id, { holding })} onImportNav={(file) => handleImportNav(file, chartAsset.id)} />
+              </div>
+            )}
+            {!showGlobalChart && chartAsset?.loan && (
+              <div className="border-t border-slate-100 pt-4">
+                <LoanSchedulePanel
+                  loan={chartAsset.loan}
+                  currency={chartAsset.currency || BASE_CURRENCY}
+                  themeColor={themeColor}
+                  onPay={(row) => handleUpdateAsset(chartAsset.id, recordLoanPayment(chartAsset, row))}
+                  onUndo={() => handleUpdateAsset(chartAsset.id, undoLoanPayment(chartAsset))}
+                />
+              </div>
+            )}
             <div className="mt-6 border-t border-slate-100 pt-4">
                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">近期数值详情</h3>
                <div className="max-h-40 overflow-y-auto space-y-1 pr-2 no-scrollbar">
                   {(() => {
-                    const hist = [...(showGlobalChart ? globalHistory : (viewingAssetChart?.history || []))].reverse();
+                    const hist = [...(showGlobalChart ? globalHistory : (chartAsset?.history || []))].reverse();
+                    const transfersByDate = !showGlobalChart && chartAsset ? groupTransfersByDate(transfers, chartAsset.id) : new Map<string, Transfer[]>();
                     return hist.slice(0, 10).map((h, i) => {
                       const prev = hist[i + 1];
                       const change = prev ? h.value - prev.value : 0;
+                      const changePercent = prev && prev.value !== 0 ? change / Math.abs(prev.value) * 100 : undefined;
                       return (
-                        <div key={i} className="flex justify-between items-center py-2 px-3 hover:bg-slate-50 rounded-[2px] transition-colors">
+                        <React.Fragment key={i}>
+                        <div className="flex justify-between items-center py-2 px-3 hover:bg-slate-50 rounded-[2px] transition-colors">
                             <span className="text-[10px] font-bold text-slate-400 font-mono">{h.date}</span>
                             <div className="flex items-center gap-3">
                               {prev && (
                                 <span className={`text-[10px] font-bold font-mono ${change >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
                                   {change > 0 ? '+' : ''}{change.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                                  {changePercent !== undefined && <span className="ml-1.5 opacity-70">{changePercent > 0 ? '+' : ''}{changePercent.toFixed(2)}%</span>}
                                 </span>
                               )}
-                              <span className="text-xs font-black text-slate-900 font-mono">¥{h.value.toLocaleString()}</span>
+                              <span className="text-xs font-black text-slate-900 font-mono">{currencySymbol(showGlobalChart ? baseCurrency : (chartAsset?.currency || BASE_CURRENCY))}{h.value.toLocaleString()}</span>
                             </div>
                         </div>
+                        {(transfersByDate.get(h.date) || []).map(t => {
+                          const isOut = t.fromId === chartAsset.id;
+                          const counterpart = assets.find(a => a.id === (isOut ? t.toId : t.fromId));
+                          return (
+                            <div key={t.id} className="flex justify-between items-center py-1 pl-8 pr-3 text-[10px] font-bold text-slate-400">
+                              <span className="truncate">{isOut ? '转出至' : '转入自'} {counterpart?.name || '已删除账户'}{t.fee ? ` · 手续费 ${t.fee}` : ''}{t.note ? ` · ${t.note}` : ''}</span>
+                              <div className="flex items-center gap-3 flex-shrink-0">
+                                <span className="font-mono">{isOut ? '-' : '+'}{(isOut ? t.amount : t.toAmount).toLocaleString()}</span>
+                                <button onClick={() => handleRevertTransfer(t)} className="font-black hover:text-rose-500">撤销</button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                        </React.Fragment>
                       );
                     });
                   })()}
@@ -784,8 +1664,8 @@ export const App: React.FC = () => {
       )}
 
       {/* 业务模态框 */}
-      <AddAssetModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onAdd={(newAsset) => setAssets([...assets, { ...newAsset, id: Math.random().toString(36), currency: 'CNY', lastUpdated: new Date().toLocaleDateString('zh-CN'), history: [{ date: new Date().toISOString().split('T')[0], value: newAsset.value }] }])} assetCategoryList={assetCategoryList} categoryColors={customCategoryColors} defaultCategory={selectedAssetCategory !== '全部' ? selectedAssetCategory : undefined} />
-      {editingAsset && <AddAssetModal isOpen={!!editingAsset} onClose={() => setEditingAsset(null)} onAdd={(data) => { handleUpdateAsset(editingAsset.id, data); setEditingAsset(null); }} initialData={editingAsset} assetCategoryList={assetCategoryList} categoryColors={customCategoryColors} onDelete={() => { setAssets(prev => prev.filter(a => a.id !== editingAsset.id)); setEditingAsset(null); }} />}
+      <AddAssetModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onAdd={handleAddAsset} assetCategoryList={assetCategoryList} categoryColors={customCategoryColors} defaultCategory={selectedAssetCategory !== '全部' ? selectedAssetCategory : undefined} />
+      {editingAsset && <AddAssetModal isOpen={!!editingAsset} onClose={() => setEditingAsset(null)} onAdd={(data) => { handleUpdateAsset(editingAsset.id, data); setEditingAsset(null); }} initialData={editingAsset} assetCategoryList={assetCategoryList} categoryColors={customCategoryColors} onDelete={() => { handleDeleteAsset(editingAsset.id); setEditingAsset(null); }} />}
       {editingBudgetIndex !== null && (
         <div className="fixed inset-0 z-[140] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-xl">
           <div className="bg-white rounded-[4px] w-full max-w-lg p-8 shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
@@ -796,6 +1676,14 @@ export const App: React.FC = () => {
                 <input type="text" className="w-full px-4 py-3 border border-slate-200 rounded-[4px] font-bold" value={budgets[editingBudgetIndex].subCategory || ''} onChange={e => handleUpdateBudget(editingBudgetIndex, { subCategory: e.target.value })} />
               </div>
               <input type="number" className="w-full px-4 py-3 border border-slate-200 rounded-[4px] font-bold" value={budgets[editingBudgetIndex].monthlyAmount} onChange={e => handleUpdateBudget(editingBudgetIndex, { monthlyAmount: parseFloat(e.target.value) || 0 })} placeholder="预算总额" />
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">月末结转</label>
+                <select className="w-full px-4 py-3 border border-slate-200 rounded-[4px] font-bold" value={budgets[editingBudgetIndex].rollover || 'full'} onChange={e => handleUpdateBudget(editingBudgetIndex, { rollover: e.target.value as RolloverMode })}>
+                  <option value="full">结余与超支均结转</option>
+                  <option value="surplus">仅结转结余</option>
+                  <option value="none">不结转</option>
+                </select>
+              </div>
               
               <div className="pt-2">
                 <button 
@@ -814,7 +1702,7 @@ export const App: React.FC = () => {
               </div>
             </div>
             <div className="flex gap-4 mt-8">
-              <button onClick={() => { setBudgets(prev => prev.filter((_, i) => i !== editingBudgetIndex)); setEditingBudgetIndex(null); }} className="px-5 py-3 text-rose-500 font-black text-xs border border-rose-100 rounded-[4px]">删除</button>
+              <button onClick={() => { handleDeleteBudget(editingBudgetIndex); setEditingBudgetIndex(null); }} className="px-5 py-3 text-rose-500 font-black text-xs border border-rose-100 rounded-[4px]">删除</button>
               <button onClick={() => setEditingBudgetIndex(null)} className="flex-1 py-3 text-white font-black text-xs uppercase rounded-[4px] shadow-lg" style={{ backgroundColor: budgets[editingBudgetIndex].color || themeColor }}>完成</button>
             </div>
           </div>
@@ -831,6 +1719,7 @@ export const App: React.FC = () => {
                <div className="mb-4 space-y-2 p-4 bg-slate-50 border border-slate-100 rounded-[4px]">
                  <input autoFocus type="number" placeholder="金额" className="w-full p-2 border border-slate-200 rounded-[4px] font-bold" value={newTransactionAmount} onChange={e => setNewTransactionAmount(e.target.value)} />
                  <input type="text" placeholder="备注" className="w-full p-2 border border-slate-200 rounded-[4px]" value={newTransactionNote} onChange={e => setNewTransactionNote(e.target.value)} />
+                 <input type="date" className="w-full p-2 border border-slate-200 rounded-[4px] text-xs font-bold" value={newTransactionDate} onChange={e => setNewTransactionDate(e.target.value)} />
                  <div className="flex justify-end gap-2">
                    <button onClick={() => setIsAddingTransaction(false)} className="text-[10px] font-bold text-slate-400">取消</button>
                    <button onClick={handleManualAddTransaction} className="text-[10px] font-bold text-slate-900">确认</button>
@@ -838,14 +1727,32 @@ export const App: React.FC = () => {
                </div>
              )}
              <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-                {(budgets[viewingTransactionsIndex].transactions || []).map(t => (
-                  <div key={t.id} className="flex justify-between p-3 bg-slate-50 rounded-[2px] border border-slate-100">
-                    <span className="text-[10px] font-bold text-slate-400">{t.date} {t.note}</span>
+                {(budgets[viewingTransactionsIndex].transactions || []).map(t => editingTransaction?.id === t.id ? (
+                  <div key={t.id} className="space-y-2 p-3 bg-slate-50 rounded-[2px] border border-slate-300">
+                    <div className="grid grid-cols-2 gap-2">
+                      <input type="number" className="w-full p-2 border border-slate-200 rounded-[4px] font-bold text-sm" value={editingTransaction.amount} onChange={e => setEditingTransaction({ ...editingTransaction, amount: e.target.value })} />
+                      <input type="date" className="w-full p-2 border border-slate-200 rounded-[4px] font-bold text-xs" value={editingTransaction.date} onChange={e => setEditingTransaction({ ...editingTransaction, date: e.target.value })} />
+                    </div>
+                    <input type="text" placeholder="备注" className="w-full p-2 border border-slate-200 rounded-[4px] text-xs" value={editingTransaction.note} onChange={e => setEditingTransaction({ ...editingTransaction, note: e.target.value })} />
+                    <select className="w-full p-2 border border-slate-200 rounded-[4px] text-xs font-bold bg-white" value={editingTransaction.targetIndex} onChange={e => setEditingTransaction({ ...editingTransaction, targetIndex: Number(e.target.value) })}>
+                      {budgets.map((b, i) => b.category === '总计' ? null : <option key={i} value={i}>{b.category} / {b.subCategory || '未命名项目'}</option>)}
+                    </select>
+                    <div className="flex justify-between items-center">
+                      <button onClick={() => handleDeleteTransaction(t.id)} className="text-[10px] font-bold text-rose-500">删除</button>
+                      <div className="flex gap-3">
+                        <button onClick={() => setEditingTransaction(null)} className="text-[10px] font-bold text-slate-400">取消</button>
+                        <button onClick={handleSaveTransactionEdit} className="text-[10px] font-bold text-slate-900">保存</button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div key={t.id} onClick={() => setEditingTransaction({ id: t.id, amount: t.amount.toString(), note: t.note || '', date: formatTransactionDate(t.date), originalDate: t.date, targetIndex: viewingTransactionsIndex })} className="flex justify-between p-3 bg-slate-50 rounded-[2px] border border-slate-100 cursor-pointer hover:border-slate-300 transition-colors">
+                    <span className="text-[10px] font-bold text-slate-400">{formatTransactionDate(t.date)} {t.note}</span>
                     <span className="text-sm font-black">¥{t.amount.toLocaleString()}</span>
                   </div>
                 ))}
              </div>
-             <button onClick={() => setViewingTransactionsIndex(null)} className="w-full mt-6 py-3 bg-slate-100 text-slate-600 font-black text-xs uppercase rounded-[4px]">关闭</button>
+             <button onClick={() => { setViewingTransactionsIndex(null); setEditingTransaction(null); }} className="w-full mt-6 py-3 bg-slate-100 text-slate-600 font-black text-xs uppercase rounded-[4px]">关闭</button>
           </div>
         </div>
       )}
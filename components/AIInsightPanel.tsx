@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef, useCallback, memo } from 'react';
+import { Asset, Budget, CachedAIInsight } from '../types';
+import { InsightService } from '../services/geminiService';
+import { buildFinancialSnapshot } from '../services/snapshotService';
+import { Icons } from '../constants';
+
+interface AIInsightPanelProps {
+  assets: Asset[];
+  budgets: Budget[];
+  service: InsightService;
+  cached: CachedAIInsight | null;
+  onResult: (result: CachedAIInsight) => void;
+  themeColor: string;
+}
+
+const RISK_COLORS: Record<string, string> = {
+  '低': 'text-emerald-600 bg-emerald-50 border-emerald-100',
+  '中': 'text-amber-600 bg-amber-50 border-amber-100',
+  '高': 'text-rose-600 bg-rose-50 border-rose-100'
+};
+
+// 数据变化后自动请求前的等待时间，连续编辑时只请求一次
+const AUTO_REQUEST_DELAY_MS = 2000;
+
+const AIInsightPanel: React.FC<AIInsightPanelProps> = memo(({ assets, budgets, service, cached, onResult, themeColor }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 规则分析（未配置模型或模型调用失败）的结果只在本次显示，不写入缓存，以免挡住之后的模型分析
+  const [offline, setOffline] = useState<CachedAIInsight | null>(null);
+  const inFlight = useRef(false);
+  const queued = useRef(false);
+  const lastService = useRef(service);
+  // 请求时读取最新的数据与服务，排队的补发请求不会用到过期的快照
+  const latest = useRef({ service, assets, budgets });
+  latest.current = { service, assets, budgets };
+
+  const requestInsights = useCallback(async () => {
+    // 请求进行中又有新的请求时，待当前请求结束后用最新数据再请求一次
+    if (inFlight.current) {
+      queued.current = true;
+      return;
+    }
+    inFlight.current = true;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { service: run, assets: currentAssets, budgets: currentBudgets } = latest.current;
+      const insight = await run(buildFinancialSnapshot(currentAssets, currentBudgets));
+      const result = { insight, generatedAt: new Date().toISOString() };
+      if (insight.isOffline) {
+        setOffline(result);
+      } else {
+        setOffline(null);
+        onResult(result);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '分析请求失败');
+    } finally {
+      inFlight.current = false;
+      setIsLoading(false);
+      if (queued.current) {
+        queued.current = false;
+        requestInsights();
+      }
+    }
+  }, [onResult]);
+
+  // 只在没有模型分析的缓存或切换了分析服务时自动请求，模型调用失败后不会随每次编辑重复请求付费接口；
+  // 首次打开与切换服务时立即请求，数据变化引起的请求等编辑停下后再发
+  const autoRequested = useRef(false);
+  const serviceChanged = useRef(false);
+  useEffect(() => {
+    if (lastService.current !== service) {
+      lastService.current = service;
+      serviceChanged.current = true;
+    }
+    if (cached && !cached.insight.isOffline && !serviceChanged.current) return;
+    const timer = setTimeout(() => {
+      autoRequested.current = true;
+      serviceChanged.current = false;
+      requestInsights();
+    }, autoRequested.current && !serviceChanged.current ? AUTO_REQUEST_DELAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [service, assets, budgets, cached, requestInsights]);
+
+  const insight = (offline || cached)?.insight;
+
+  return (
+    <section className="bg-white border border-slate-200/80 shadow-sm p-5 space-y-4" style={{ borderRadius: '4px' }}>
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-1.5 rounded-full" style={{ backgroundColor: themeColor }} />
+          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">AI 分析</h3>
+          {insight?.isOffline && (
+            <span className="text-[9px] font-black px-1.5 py-0.5 rounded-[2px] bg-slate-100 text-slate-500 border border-slate-200">离线建议</span>
+          )}
+        </div>
+        <button
+          onClick={requestInsights}
+          disabled={isLoading}
+          className="px-3 h-7 text-[10px] font-black uppercase tracking-widest border border-slate-200 rounded-[2px] text-slate-500 hover:bg-slate-50 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          {isLoading ? '分析中…' : '刷新'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-[10px] font-bold text-rose-500 bg-rose-50 border border-rose-100 rounded-[2px] px-3 py-2">{error}</p>
+      )}
+
+      {!insight && isLoading && (
+        <div className="space-y-2 animate-pulse">
+          <div className="h-3 bg-slate-100 rounded-[2px] w-full" />
+          <div className="h-3 bg-slate-100 rounded-[2px] w-2/3" />
+        </div>
+      )}
+
+      {insight && (
+        <div className={`space-y-3 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+          <div className="flex items-start gap-2">
+            <span className={`text-[9px] font-black px-1.5 py-0.5 rounded-[2px] border flex-shrink-0 ${RISK_COLORS[insight.riskLevel] || RISK_COLORS['中']}`}>风险 {insight.riskLevel}</span>
+            <p className="text-xs font-bold text-slate-700 leading-relaxed">{insight.summary}</p>
+          </div>
+          {insight.actions && insight.actions.length > 0 ? (
+            <ol className="space-y-1.5">
+              {insight.actions.map((a, i) => (
+                <li key={i} className="flex items-start gap-2 text-[11px] font-bold text-slate-500">
+                  <span className="w-4 h-4 flex-shrink-0 flex items-center justify-center rounded-[2px] text-[9px] font-black text-white" style={{ backgroundColor: themeColor }}>{a.priority}</span>
+                  <span>
+                    <span className="text-slate-700">{a.action}</span>
+                    {a.reason && <span className="block text-[10px] text-slate-400">{a.reason}</span>}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <ul className="space-y-1.5">
+              {insight.suggestions.map((s, i) => (
+                <li key={i} className="flex items-start gap-2 text-[11px] font-bold text-slate-500">
+                  <Icons.Target className="w-3 h-3 mt-0.5 flex-shrink-0 text-slate-300" />
+                  <span>{s}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {insight.categoryRisks && insight.categoryRisks.length > 0 && (
+            <div className="space-y-1 pt-2 border-t border-slate-100">
+              {insight.categoryRisks.map((r, i) => (
+                <div key={i} className="flex items-start gap-2">
+                  <span className={`text-[9px] font-black px-1.5 py-0.5 rounded-[2px] border flex-shrink-0 ${RISK_COLORS[r.riskLevel] || RISK_COLORS['中']}`}>{r.category}</span>
+                  <span className="text-[10px] font-bold text-slate-500 leading-relaxed">{r.note}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {(offline || cached) && (
+            <p className="text-[9px] font-mono font-black text-slate-300 uppercase tracking-wider">更新于 {new Date((offline || cached).generatedAt).toLocaleString('zh-CN')}</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+});
+
+export default AIInsightPanel;
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Asset, AssetCategory } from '../types';
+import { Asset, AssetCategory, CreditCard, Holding, Loan, RepaymentMethod } from '../types';
 import { Icons } from '../constants';
+import { BASE_CURRENCY, CURRENCIES, currencySymbol } from '../services/fxService';
+import { createHolding, setNav, summarizeHolding } from '../services/holdingService';
+import { REPAYMENT_METHOD_LABELS, DEFAULT_MINIMUM_PERCENT } from '../services/loanService';
+import { DEFAULT_REMINDER_DAYS } from '../services/creditCardService';
 
 interface AddAssetModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (asset: { name: string, category: AssetCategory, value: number, targetValue?: number, durationMonths?: number, notes?: string, color?: string }) => void;
+  onAdd: (asset: { name: string, category: AssetCategory, value: number, currency: string, targetValue?: number, durationMonths?: number, notes?: string, color?: string, holding?: Holding, loan?: Loan, creditCard?: CreditCard }) => void;
   initialData?: Asset;
   assetCategoryList: string[];
   categoryColors: Record<string, string>;
@@ -32,9 +36,19 @@ const AddAssetModal: React.FC<AddAssetModalProps> = ({ isOpen, onClose, onAdd, i
   const [name, setName] = useState('');
   const [category, setCategory] = useState<AssetCategory>(AssetCategory.THIRD_PARTY);
   const [value, setValue] = useState('');
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
   const [targetValue, setTargetValue] = useState('');
   const [durationMonths, setDurationMonths] = useState('');
   const [notes, setNotes] = useState('');
+  const [trackHolding, setTrackHolding] = useState(false);
+  const [fundCode, setFundCode] = useState('');
+  const [units, setUnits] = useState('');
+  const [costPerUnit, setCostPerUnit] = useState('');
+  const [nav, setNavValue] = useState('');
+  const [trackLoan, setTrackLoan] = useState(false);
+  const [loanForm, setLoanForm] = useState({ principal: '', annualRate: '', method: 'annuity' as RepaymentMethod, dueDay: '', startDate: '', minimumPercent: '' });
+  const [trackCard, setTrackCard] = useState(false);
+  const [cardForm, setCardForm] = useState({ statementDay: '', dueDay: '', reminderDays: '' });
   const [selectedColor, setSelectedColor] = useState<string | undefined>(undefined);
   const [showColorPicker, setShowColorPicker] = useState(false);
 
@@ -43,10 +57,30 @@ const AddAssetModal: React.FC<AddAssetModalProps> = ({ isOpen, onClose, onAdd, i
       setName(initialData.name);
       setCategory(initialData.category);
       setValue(initialData.value.toString());
+      setCurrency(initialData.currency || BASE_CURRENCY);
       setTargetValue(initialData.targetValue?.toString() || '');
       setDurationMonths(initialData.durationMonths?.toString() || '');
       setNotes(initialData.notes || '');
       setSelectedColor(initialData.color);
+      setTrackHolding(!!initialData.holding);
+      setFundCode(initialData.holding?.code || '');
+      setNavValue(initialData.holding?.nav.toString() || '');
+      const loan = initialData.loan;
+      setTrackLoan(!!loan);
+      setLoanForm({
+        principal: loan?.principal.toString() || '',
+        annualRate: loan?.annualRate.toString() || '',
+        method: loan?.method || 'annuity',
+        dueDay: loan?.dueDay.toString() || '',
+        startDate: loan?.startDate || '',
+        minimumPercent: loan?.minimumPercent?.toString() || ''
+      });
+      setTrackCard(!!initialData.creditCard);
+      setCardForm({
+        statementDay: initialData.creditCard?.statementDay.toString() || '',
+        dueDay: initialData.creditCard?.dueDay.toString() || '',
+        reminderDays: initialData.creditCard?.reminderDays.toString() || ''
+      });
     } else {
       setName('');
       const targetCategory = defaultCategory && assetCategoryList.includes(defaultCategory) 
@@ -54,11 +88,21 @@ const AddAssetModal: React.FC<AddAssetModalProps> = ({ isOpen, onClose, onAdd, i
         : (assetCategoryList[0] || AssetCategory.THIRD_PARTY);
       setCategory(targetCategory as AssetCategory);
       setValue('');
+      setCurrency(BASE_CURRENCY);
       setTargetValue('');
       setDurationMonths('');
       setNotes('');
       setSelectedColor(undefined);
+      setTrackHolding(false);
+      setFundCode('');
+      setNavValue('');
+      setTrackCard(false);
+      setCardForm({ statementDay: '', dueDay: '', reminderDays: '' });
+      setTrackLoan(false);
+      setLoanForm({ principal: '', annualRate: '', method: 'annuity', dueDay: '', startDate: '', minimumPercent: '' });
     }
+    setUnits('');
+    setCostPerUnit('');
     setShowColorPicker(false);
   }, [initialData, isOpen, assetCategoryList, defaultCategory]);
 
@@ -66,19 +110,66 @@ const AddAssetModal: React.FC<AddAssetModalProps> = ({ isOpen, onClose, onAdd, i
 
   const activeColor = selectedColor || categoryColors[category] || '#0f172a';
   const isDark = isDarkColor(activeColor);
-  const showTargetInput = category === AssetCategory.BANK || category === AssetCategory.LIABILITY;
+  const canTrackHolding = category === AssetCategory.FUND || category === AssetCategory.WEALTH;
+  const existingHolding = initialData?.holding;
+
+  // 启用持仓明细时，新建持仓记一笔初始买入；已有持仓只更新代码与净值
+  const buildHolding = (): Holding | undefined => {
+    if (!canTrackHolding || !trackHolding) return undefined;
+    const navValue = parseFloat(nav);
+    if (existingHolding) {
+      const withCode = { ...existingHolding, code: fundCode.trim() || undefined };
+      return navValue > 0 && navValue !== existingHolding.nav ? setNav(withCode, navValue) : withCode;
+    }
+    if (!(navValue > 0)) return undefined;
+    return createHolding(parseFloat(units) || 0, parseFloat(costPerUnit) || navValue, navValue, fundCode.trim() || undefined);
+  };
+
+  // 贷款计划沿用已有的还款记录；本金默认取当前负债金额，期数取期限
+  const buildLoan = (): Loan | undefined => {
+    if (category !== AssetCategory.LIABILITY || !trackLoan) return undefined;
+    const principal = parseFloat(loanForm.principal) || parseFloat(value);
+    if (!(principal > 0)) return undefined;
+    return {
+      principal,
+      annualRate: parseFloat(loanForm.annualRate) || 0,
+      termMonths: parseInt(durationMonths) || initialData?.loan?.termMonths || 12,
+      method: loanForm.method,
+      dueDay: Math.min(31, Math.max(1, parseInt(loanForm.dueDay) || 1)),
+      startDate: loanForm.startDate || new Date().toISOString().split('T')[0],
+      minimumPercent: loanForm.method === 'minimum' ? (parseFloat(loanForm.minimumPercent) || DEFAULT_MINIMUM_PERCENT) : undefined,
+      payments: initialData?.loan?.payments || []
+    };
+  };
+
+  // 信用卡额度沿用负债限额字段，卡片上的进度条即为额度使用率
+  const buildCreditCard = (): CreditCard | undefined => {
+    if (category !== AssetCategory.LIABILITY || !trackCard) return undefined;
+    const clampDay = (v: string) => Math.min(31, Math.max(1, parseInt(v) || 1));
+    return {
+      statementDay: clampDay(cardForm.statementDay),
+      dueDay: clampDay(cardForm.dueDay),
+      creditLimit: parseFloat(targetValue) || 0,
+      reminderDays: cardForm.reminderDays ? Math.max(0, parseInt(cardForm.reminderDays)) : DEFAULT_REMINDER_DAYS
+    };
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name || !value) return;
+    const holding = buildHolding();
+    if (!name || (!value && !holding)) return;
     onAdd({
       name,
       category,
-      value: parseFloat(value),
+      value: holding ? summarizeHolding(holding).marketValue : parseFloat(value),
+      currency,
       targetValue: targetValue ? parseFloat(targetValue) : undefined,
       durationMonths: durationMonths ? parseInt(durationMonths) : undefined,
       notes: notes.trim() || undefined,
-      color: selectedColor
+      color: selectedColor,
+      holding,
+      loan: buildLoan(),
+      creditCard: buildCreditCard()
     });
     onClose();
   };
@@ -107,21 +198,127 @@ const AddAssetModal: React.FC<AddAssetModalProps> = ({ isOpen, onClose, onAdd, i
               </select>
             </div>
             <div>
-              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">当前金额 (¥)</label>
-              <input type="number" required step="0.01" value={value} onChange={(e) => setValue(e.target.value)} className={inputClass} style={focusStyle} placeholder="0.00" />
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">当前金额 ({currencySymbol(currency).trim()})</label>
+              <div className="flex gap-2">
+                <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="w-24 flex-shrink-0 px-2 py-3 border border-slate-200 rounded focus:ring-2 focus:outline-none font-bold appearance-none bg-slate-50" style={focusStyle}>
+                  {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                </select>
+                <input type="number" required={!(canTrackHolding && trackHolding)} disabled={canTrackHolding && trackHolding} step="0.01" value={canTrackHolding && trackHolding ? '' : value} onChange={(e) => setValue(e.target.value)} className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-300`} style={focusStyle} placeholder={canTrackHolding && trackHolding ? '按份额计算' : '0.00'} />
+              </div>
             </div>
           </div>
 
-          {showTargetInput && (
+          {canTrackHolding && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={trackHolding} onChange={(e) => setTrackHolding(e.target.checked)} disabled={!!existingHolding} />
+                按份额与净值记账
+              </label>
+              {trackHolding && (
+                <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">产品代码</label>
+                    <input type="text" value={fundCode} onChange={(e) => setFundCode(e.target.value)} className={inputClass} style={focusStyle} placeholder="例如 005827" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">最新净值</label>
+                    <input type="number" required step="0.0001" value={nav} onChange={(e) => setNavValue(e.target.value)} className={inputClass} style={focusStyle} placeholder="0.0000" />
+                  </div>
+                  {!existingHolding && (
+                    <>
+                      <div>
+                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">持有份额</label>
+                        <input type="number" step="0.01" value={units} onChange={(e) => setUnits(e.target.value)} className={inputClass} style={focusStyle} placeholder="份额" />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">成本单价</label>
+                        <input type="number" step="0.0001" value={costPerUnit} onChange={(e) => setCostPerUnit(e.target.value)} className={inputClass} style={focusStyle} placeholder="默认同净值" />
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {category === AssetCategory.LIABILITY && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={trackCard} onChange={(e) => setTrackCard(e.target.checked)} />
+                信用卡账期
+              </label>
+              {trackCard && (
+                <div className="grid grid-cols-3 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">账单日</label>
+                    <input type="number" min="1" max="31" required value={cardForm.statementDay} onChange={(e) => setCardForm({ ...cardForm, statementDay: e.target.value })} className={inputClass} style={focusStyle} placeholder="1-31" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">还款日</label>
+                    <input type="number" min="1" max="31" required value={cardForm.dueDay} onChange={(e) => setCardForm({ ...cardForm, dueDay: e.target.value })} className={inputClass} style={focusStyle} placeholder="1-31" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">提前提醒</label>
+                    <input type="number" min="0" value={cardForm.reminderDays} onChange={(e) => setCardForm({ ...cardForm, reminderDays: e.target.value })} className={inputClass} style={focusStyle} placeholder={`${DEFAULT_REMINDER_DAYS} 天`} />
+                  </div>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={trackLoan} onChange={(e) => setTrackLoan(e.target.checked)} />
+                生成还款计划
+              </label>
+              {trackLoan && (
+                <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">还款方式</label>
+                    <select value={loanForm.method} onChange={(e) => setLoanForm({ ...loanForm, method: e.target.value as RepaymentMethod })} className={`${inputClass} appearance-none bg-slate-50`} style={focusStyle}>
+                      {(Object.keys(REPAYMENT_METHOD_LABELS) as RepaymentMethod[]).map(m => <option key={m} value={m}>{REPAYMENT_METHOD_LABELS[m]}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">贷款本金</label>
+                    <input type="number" step="0.01" value={loanForm.principal} onChange={(e) => setLoanForm({ ...loanForm, principal: e.target.value })} className={inputClass} style={focusStyle} placeholder="默认当前金额" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">年利率 (%)</label>
+                    <input type="number" step="0.01" value={loanForm.annualRate} onChange={(e) => setLoanForm({ ...loanForm, annualRate: e.target.value })} className={inputClass} style={focusStyle} placeholder="例如 4.2" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">每月还款日</label>
+                    <input type="number" min="1" max="31" value={loanForm.dueDay} onChange={(e) => setLoanForm({ ...loanForm, dueDay: e.target.value })} className={inputClass} style={focusStyle} placeholder="1-31" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">放款日期</label>
+                    <input type="date" value={loanForm.startDate} onChange={(e) => setLoanForm({ ...loanForm, startDate: e.target.value })} className={inputClass} style={focusStyle} />
+                  </div>
+                  {loanForm.method === 'minimum' ? (
+                    <div>
+                      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">最低还款比例 (%)</label>
+                      <input type="number" step="0.1" value={loanForm.minimumPercent} onChange={(e) => setLoanForm({ ...loanForm, minimumPercent: e.target.value })} className={inputClass} style={focusStyle} placeholder={String(DEFAULT_MINIMUM_PERCENT)} />
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">期数 (个月)</label>
+                      <input type="number" value={durationMonths} onChange={(e) => setDurationMonths(e.target.value)} className={inputClass} style={focusStyle} placeholder="12" />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {!(canTrackHolding && trackHolding) && (
             <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
               <div>
-                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">{category === AssetCategory.BANK ? '攒钱目标 (¥)' : '负债限额 (¥)'}</label>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">{category === AssetCategory.LIABILITY ? (trackCard ? '信用额度' : '负债限额') : '目标金额'} ({currencySymbol(currency).trim()})</label>
                 <input type="number" step="0.01" value={targetValue} onChange={(e) => setTargetValue(e.target.value)} className={inputClass} style={focusStyle} placeholder="金额" />
               </div>
-              <div>
-                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">期限 (个月)</label>
-                <input type="number" value={durationMonths} onChange={(e) => setDurationMonths(e.target.value)} className={inputClass} style={focusStyle} placeholder="几个月" />
-              </div>
+              {!(category === AssetCategory.LIABILITY && trackLoan) && (
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">期限 (个月)</label>
+                  <input type="number" value={durationMonths} onChange={(e) => setDurationMonths(e.target.value)} className={inputClass} style={focusStyle} placeholder="几个月" />
+                </div>
+              )}
             </div>
           )}
 
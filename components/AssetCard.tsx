@@ -1,6 +1,10 @@
-import React, { useEffect, useRef, useState, memo } from 'react';
+import React, { useEffect, useMemo, useRef, useState, memo } from 'react';
 import { Asset, AssetCategory, CategoryColors } from '../types';
-import { Icons } from '../constants';
+import { Icons, MASKED_AMOUNT } from '../constants';
+import { BASE_CURRENCY, formatMoney } from '../services/fxService';
+import { summarizeHolding, setNav } from '../services/holdingService';
+import { nextDuePayment } from '../services/loanService';
+import { getCreditCardStatus } from '../services/creditCardService';
 
 interface AssetCardProps {
   asset: Asset;
@@ -11,21 +15,36 @@ interface AssetCardProps {
   onEditFull: (asset: Asset) => void;
   onVisible?: (id: string, color: string) => void;
   isSmallMode?: boolean;
+  baseCurrency?: string;
+  convertedValue?: number; // 折算为本位币后的数值，币种与本位币相同时不传
+  isPrivate?: boolean; // 隐私模式：金额打码，点击后显示
 }
 
-const AssetCard: React.FC<AssetCardProps> = memo(({ asset, categoryColor, onDelete, onUpdate, onShowChart, onEditFull, onVisible, isSmallMode }) => {
+const AssetCard: React.FC<AssetCardProps> = memo(({ asset, categoryColor, onDelete, onUpdate, onShowChart, onEditFull, onVisible, isSmallMode, baseCurrency = BASE_CURRENCY, convertedValue, isPrivate }) => {
   const [isEditingValue, setIsEditingValue] = useState(false);
   const [tempValue, setTempValue] = useState(asset.value.toString());
+  const [isRevealed, setIsRevealed] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
   const pressTimer = useRef<number | null>(null);
 
   const isPositive = (asset.change24h || 0) >= 0;
+  const currency = asset.currency || BASE_CURRENCY;
+  const holdingSummary = useMemo(() => asset.holding ? summarizeHolding(asset.holding) : null, [asset.holding]);
+  const cardStatus = useMemo(() => asset.creditCard ? getCreditCardStatus(asset, asset.creditCard) : undefined, [asset]);
+  const nextPayment = useMemo(() => asset.loan ? nextDuePayment(asset.loan) : undefined, [asset.loan]);
+  // 持仓资产的数值由净值推导，行内编辑改为更新净值
+  const editableValue = asset.holding ? asset.holding.nav : asset.value;
   // Priority: Asset individual color > Category state color > Default CategoryColors mapping
   const baseColor = asset.color || categoryColor || CategoryColors[asset.category as AssetCategory] || '#64748b';
 
-  const hasProgress = (asset.category === AssetCategory.BANK || asset.category === AssetCategory.LIABILITY) && asset.targetValue;
+  const isMasked = isPrivate && !isRevealed;
+  const money = (value: number, code = currency) => isMasked ? MASKED_AMOUNT : formatMoney(value, code);
+
+  const hasProgress = !!asset.targetValue;
   const progressPercent = hasProgress ? Math.min(100, (asset.value / (asset.targetValue || 1)) * 100) : 0;
 
+  useEffect(() => setIsRevealed(false), [isPrivate]);
+
   useEffect(() => {
     if (!onVisible) return;
     const observer = new IntersectionObserver(
@@ -54,7 +73,7 @@ const AssetCard: React.FC<AssetCardProps> = memo(({ asset, categoryColor, onDele
 
   const handleSaveValue = () => {
     const val = parseFloat(tempValue);
-    if (!isNaN(val)) onUpdate(asset.id, { value: val });
+    if (!isNaN(val)) onUpdate(asset.id, asset.holding ? { holding: setNav(asset.holding, val) } : { value: val });
     setIsEditingValue(false);
   };
 
@@ -114,16 +133,33 @@ const AssetCard: React.FC<AssetCardProps> = memo(({ asset, categoryColor, onDele
           {isEditingValue ? (
             <input autoFocus type="number" value={tempValue} onChange={(e) => setTempValue(e.target.value)} onBlur={handleSaveValue} onKeyDown={(e) => e.key === 'Enter' && handleSaveValue()} className={`${isSmallMode ? 'text-lg' : 'text-xl'} font-mono font-black text-white bg-black/20 border-none outline-none rounded-[2px] px-1.5 w-32 shadow-inner`} onClick={(e) => e.stopPropagation()} />
           ) : (
-            <div onClick={(e) => { e.stopPropagation(); setIsEditingValue(true); setTempValue(asset.value.toString()); }} className="cursor-text group/val inline-block">
+            <div onClick={(e) => { e.stopPropagation(); if (isMasked) { setIsRevealed(true); return; } setIsEditingValue(true); setTempValue(editableValue.toString()); }} className="cursor-text group/val inline-block">
               <span className={`${isSmallMode ? 'text-[17px]' : 'text-[22px]'} font-mono font-black text-white drop-shadow-md tracking-tight leading-none group-hover/val:underline decoration-white/30 underline-offset-4 decoration-2`}>
-                {new Intl.NumberFormat('zh-CN', { style: 'currency', currency: 'CNY', maximumFractionDigits: 0 }).format(asset.value)}
+                {money(asset.value)}
               </span>
             </div>
           )}
+          {holdingSummary && !isSmallMode && (
+            <div className={`text-[9px] font-mono font-black leading-none mt-1 ${holdingSummary.totalReturn >= 0 ? 'text-emerald-100' : 'text-rose-100'}`}>
+              收益 {holdingSummary.totalReturn > 0 ? '+' : ''}{money(holdingSummary.totalReturn)} · {holdingSummary.totalReturnPercent}%
+              {holdingSummary.xirr !== undefined && ` · 年化 ${(holdingSummary.xirr * 100).toFixed(1)}%`}
+            </div>
+          )}
+          {cardStatus && !isSmallMode && (
+            <div className="text-[9px] font-mono font-black text-white/80 leading-none mt-1">
+              本期 {money(cardStatus.billed)} · 未出账 {money(cardStatus.unbilled)}{cardStatus.billed > 0 ? ` · ${cardStatus.daysUntilDue >= 0 ? `${cardStatus.daysUntilDue} 天后到期` : '已逾期'}` : ''}
+            </div>
+          )}
+          {nextPayment && !isSmallMode && (
+            <div className="text-[9px] font-mono font-black text-white/80 leading-none mt-1">下期 {nextPayment.dueDate.slice(5)} 应还 {money(nextPayment.payment)}</div>
+          )}
+          {convertedValue !== undefined && (
+            <div className="text-[9px] font-mono font-black text-white/70 leading-none mt-1">≈ {money(convertedValue, baseCurrency)}</div>
+          )}
           {hasProgress && !isSmallMode && (
             <div className="flex items-center gap-1 mt-1">
                <div className="h-1 w-1 bg-white/60 rounded-full animate-pulse"></div>
-               <p className="text-[10px] font-bold text-white/80 uppercase tracking-wide">{progressPercent.toFixed(0)}% / {new Intl.NumberFormat('zh-CN', { style: 'currency', currency: 'CNY', maximumFractionDigits: 0 }).format(asset.targetValue || 0)}</p>
+               <p className="text-[10px] font-bold text-white/80 uppercase tracking-wide">{progressPercent.toFixed(0)}% / {money(asset.targetValue || 0)}</p>
             </div>
           )}
         </div>
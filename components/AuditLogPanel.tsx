@@ -0,0 +1,75 @@
+import React, { useState, useMemo, memo } from 'react';
+import { AuditEntry } from '../types';
+import { SOURCE_LABELS } from '../services/auditService';
+
+interface AuditLogPanelProps {
+  entries: AuditEntry[];
+  undoLabel?: string;
+  redoLabel?: string;
+  themeColor: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+}
+
+const PAGE_SIZE = 30;
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = memo(({ entries, undoLabel, redoLabel, themeColor, onUndo, onRedo, onClear }) => {
+  const [query, setQuery] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  // 按账户 / 预算名称、操作或数值搜索，便于追查某个数字的来源
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e => e.action.toLowerCase().includes(q) || e.changes.some(c =>
+      [c.target, c.field, c.before, c.after].some(text => text?.toLowerCase().includes(q))
+    ));
+  }, [entries, query]);
+
+  const buttonClass = 'flex-1 py-2.5 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200 hover:bg-slate-100 disabled:opacity-40 truncate px-2';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">操作记录</label>
+        {entries.length > 0 && <button onClick={() => confirm('确定清空操作记录吗？不影响已有数据。') && onClear()} className="text-[10px] font-black text-slate-300 hover:text-rose-500">清空</button>}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onUndo} disabled={!undoLabel} className={buttonClass}>撤销{undoLabel ? `：${undoLabel}` : ''}</button>
+        <button onClick={onRedo} disabled={!redoLabel} className={buttonClass}>重做{redoLabel ? `：${redoLabel}` : ''}</button>
+      </div>
+      <input type="text" value={query} onChange={e => { setQuery(e.target.value); setLimit(PAGE_SIZE); }} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-bold rounded-[4px] outline-none" placeholder="搜索账户、预算或金额" />
+      <div className="max-h-96 overflow-y-auto space-y-1.5 pr-1">
+        {filtered.length === 0 && <p className="text-[10px] font-bold text-slate-400 py-2 text-center">{entries.length === 0 ? '暂无操作记录' : '没有匹配的记录'}</p>}
+        {filtered.slice(0, limit).map(entry => (
+          <div key={entry.id} className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-[2px]">
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] font-black text-slate-900 flex-1 truncate">{entry.action}</span>
+              <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded-[2px] border" style={{ color: entry.source === 'manual' ? undefined : themeColor, borderColor: entry.source === 'manual' ? '#e2e8f0' : themeColor }}>{SOURCE_LABELS[entry.source]}</span>
+              <span className="text-[9px] font-mono font-bold text-slate-400">{new Date(entry.timestamp).toLocaleString('zh-CN', { hour12: false })}</span>
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {entry.changes.map((c, i) => (
+                <li key={i} className="text-[10px] font-bold text-slate-500 flex gap-1.5 min-w-0">
+                  <span className="text-slate-700 truncate max-w-[40%]">{c.target}</span>
+                  <span className="text-slate-400 flex-shrink-0">{c.field}</span>
+                  <span className="font-mono truncate">
+                    {c.before !== undefined && <span className="text-slate-400 line-through">{c.before}</span>}
+                    {c.before !== undefined && c.after !== undefined && ' → '}
+                    {c.after !== undefined && <span className="text-slate-900">{c.after}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {filtered.length > limit && (
+          <button onClick={() => setLimit(limit + PAGE_SIZE)} className="w-full py-2 text-[10px] font-black text-slate-400 hover:text-slate-700">显示更多（还有 {filtered.length - limit} 条）</button>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default AuditLogPanel;
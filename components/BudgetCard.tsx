@@ -1,6 +1,6 @@
-import React, { useState, useRef, memo } from 'react';
+import React, { useState, useRef, useEffect, memo } from 'react';
 import { Budget } from '../types';
-import { Icons } from '../constants';
+import { Icons, MASKED_AMOUNT } from '../constants';
 
 interface BudgetCardProps {
   budget: Budget;
@@ -11,16 +11,23 @@ interface BudgetCardProps {
   onQuickAdd: (index: number) => void;
   onViewTransactions: (index: number) => void;
   isSmallMode?: boolean;
+  isPrivate?: boolean; // 隐私模式：金额打码，点击后显示
 }
 
-const BudgetCard: React.FC<BudgetCardProps> = memo(({ budget, index, themeColor, onUpdate, onEditFull, onQuickAdd, onViewTransactions, isSmallMode }) => {
+const BudgetCard: React.FC<BudgetCardProps> = memo(({ budget, index, themeColor, onUpdate, onEditFull, onQuickAdd, onViewTransactions, isSmallMode, isPrivate }) => {
   const [isEditingValue, setIsEditingValue] = useState(false);
   const [tempValue, setTempValue] = useState(budget.spentThisMonth.toString());
+  const [isRevealed, setIsRevealed] = useState(false);
   const pressTimer = useRef<number | null>(null);
 
-  const progress = Math.min(100, (budget.spentThisMonth / (budget.monthlyAmount || 1)) * 100);
-  const isOver = budget.spentThisMonth > budget.monthlyAmount;
+  const available = budget.monthlyAmount + budget.carryOver;
+  const progress = Math.min(100, (budget.spentThisMonth / (available > 0 ? available : 1)) * 100);
+  const isOver = budget.spentThisMonth > available;
   const itemColor = budget.color || themeColor;
+  const isMasked = isPrivate && !isRevealed;
+  const money = (value: number) => isMasked ? MASKED_AMOUNT : value.toLocaleString();
+
+  useEffect(() => setIsRevealed(false), [isPrivate]);
 
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
     if ((e.target as HTMLElement).closest('button')) return;
@@ -105,16 +112,19 @@ const BudgetCard: React.FC<BudgetCardProps> = memo(({ budget, index, themeColor,
             />
           ) : (
             <div 
-              onClick={(e) => { e.stopPropagation(); setIsEditingValue(true); setTempValue(budget.spentThisMonth.toString()); }}
+              onClick={(e) => { e.stopPropagation(); if (isMasked) { setIsRevealed(true); return; } setIsEditingValue(true); setTempValue(budget.spentThisMonth.toString()); }}
               className="cursor-text hover:bg-slate-50 px-0.5 -ml-0.5 rounded-[2px] transition-colors inline-block"
             >
-              <p className={`${isSmallMode ? 'text-[17px]' : 'text-[22px]'} font-mono font-black text-slate-800 tracking-tight leading-none`}>¥{budget.spentThisMonth.toLocaleString()}</p>
+              <p className={`${isSmallMode ? 'text-[17px]' : 'text-[22px]'} font-mono font-black text-slate-800 tracking-tight leading-none`}>¥{money(budget.spentThisMonth)}</p>
             </div>
           )}
           {!isSmallMode && (
             <div className="flex items-center gap-1 mt-1">
               <div className="h-0.5 w-2 rounded-full bg-slate-200"></div>
-              <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">限额 ¥{budget.monthlyAmount.toLocaleString()}</div>
+              <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">限额 ¥{money(budget.monthlyAmount)}</div>
+              {budget.carryOver !== 0 && (
+                <div className={`text-[9px] font-bold uppercase tracking-wide ${budget.carryOver < 0 ? 'text-rose-400' : 'text-emerald-500'}`}>结转 {budget.carryOver > 0 && !isMasked ? '+' : ''}{money(budget.carryOver)}</div>
+              )}
             </div>
           )}
         </div>
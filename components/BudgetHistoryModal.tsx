@@ -0,0 +1,142 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Budget } from '../types';
+import { getBudgetMonths, getBudgetMonthSnapshots, getCategoryTrend, TOTAL_BUDGET_CATEGORY } from '../services/budgetService';
+import { formatTransactionDate } from '../services/ledgerService';
+import { BarChart, Bar, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+
+interface BudgetHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budgets: Budget[];
+  currentMonth: string;
+  themeColor: string;
+}
+
+const BudgetHistoryModal: React.FC<BudgetHistoryModalProps> = ({ isOpen, onClose, budgets, currentMonth, themeColor }) => {
+  const months = useMemo(() => getBudgetMonths(budgets, currentMonth), [budgets, currentMonth]);
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  // 趋势图可按整个分类或单个子项目查看；名称中可能含有 "/"，选项键用 JSON 编码的 [分类, 子项目]
+  const trendOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    budgets.filter(b => b.category !== TOTAL_BUDGET_CATEGORY).forEach(b => {
+      options.set(JSON.stringify([b.category]), b.category);
+      if (b.subCategory) options.set(JSON.stringify([b.category, b.subCategory]), `${b.category}/${b.subCategory}`);
+    });
+    return Array.from(options, ([key, label]) => ({ key, label }));
+  }, [budgets]);
+  const [trendKey, setTrendKey] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedMonth(currentMonth);
+    setExpandedKey(null);
+    setTrendKey(prev => trendOptions.some(o => o.key === prev) ? prev : (trendOptions[0]?.key || ''));
+  }, [isOpen, currentMonth, trendOptions]);
+
+  const snapshots = useMemo(() => getBudgetMonthSnapshots(budgets, selectedMonth, currentMonth), [budgets, selectedMonth, currentMonth]);
+
+  const trendData = useMemo(() => {
+    if (!trendKey) return [];
+    const [category, subCategory]: [string, string?] = JSON.parse(trendKey);
+    return getCategoryTrend(budgets, category, currentMonth, subCategory).map(t => ({ ...t, month: t.month.slice(2) }));
+  }, [budgets, trendKey, currentMonth]);
+
+  if (!isOpen) return null;
+
+  const totalSpent = snapshots.reduce((sum, s) => sum + s.spent, 0);
+  const totalLimit = snapshots.reduce((sum, s) => sum + s.monthlyAmount, 0);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-white rounded-[4px] w-full max-w-2xl p-8 shadow-2xl border border-white/20 overflow-y-auto max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter">预算历史</h2>
+            <p className="text-xs font-bold text-slate-400 mt-1">按月回看限额与支出</p>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-500 font-black text-[10px] uppercase tracking-widest rounded-[2px] transition-colors">关闭</button>
+        </div>
+
+        <div className="flex items-center gap-2 overflow-x-auto no-scrollbar pb-1 mb-6">
+          {months.map(m => (
+            <button
+              key={m}
+              onClick={() => { setSelectedMonth(m); setExpandedKey(null); }}
+              style={{ backgroundColor: selectedMonth === m ? themeColor : 'white', borderColor: selectedMonth === m ? themeColor : '#e2e8f0', color: selectedMonth === m ? 'white' : '#94a3b8' }}
+              className="px-4 h-9 text-[10px] font-black uppercase tracking-widest whitespace-nowrap border rounded-[2px] shadow-sm flex-shrink-0"
+            >
+              {m === currentMonth ? '本月' : m}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {snapshots.length === 0 && <p className="text-[10px] font-bold text-slate-400 py-4 text-center">该月暂无预算记录</p>}
+          {snapshots.map((s, i) => {
+            const key = `${s.category}/${s.subCategory || ''}/${i}`;
+            const isExpanded = expandedKey === key;
+            return (
+              <div key={key} className="bg-slate-50 rounded-[2px] border border-slate-100">
+                <button onClick={() => setExpandedKey(isExpanded ? null : key)} className="w-full flex justify-between items-center p-3 text-left">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: s.color || themeColor }} />
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-tighter">{s.category}</span>
+                    <span className="text-[11px] font-black text-slate-700 truncate">{s.subCategory || '未命名项目'}</span>
+                  </div>
+                  <div className="flex gap-4 items-center font-mono">
+                    <span className="text-[10px] font-bold text-slate-400">限额 ¥{s.monthlyAmount.toLocaleString()}</span>
+                    <span className="text-[11px] font-black text-slate-900">¥{s.spent.toLocaleString()}</span>
+                    {s.overspend > 0 && <span className="text-[10px] font-black text-rose-500">超支 ¥{s.overspend.toLocaleString()}</span>}
+                  </div>
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-1">
+                    {s.transactions.length === 0 && <p className="text-[10px] font-bold text-slate-300">无流水</p>}
+                    {s.transactions.map(t => (
+                      <div key={t.id} className="flex justify-between py-1.5 px-2 bg-white rounded-[2px] border border-slate-100">
+                        <span className="text-[10px] font-bold text-slate-400">{formatTransactionDate(t.date)} {t.note}</span>
+                        <span className="text-[11px] font-black font-mono">¥{t.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {snapshots.length > 0 && (
+            <div className="flex justify-between items-center p-3 mt-4 rounded-[2px] text-white" style={{ backgroundColor: themeColor }}>
+              <span className="text-[10px] font-black uppercase tracking-widest">合计</span>
+              <span className="text-[12px] font-mono font-black">¥{totalSpent.toLocaleString()} / ¥{totalLimit.toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 pt-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">近 12 个月对比</h3>
+            <select value={trendKey} onChange={e => setTrendKey(e.target.value)} className="px-3 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-black bg-slate-50">
+              {trendOptions.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+            </select>
+          </div>
+          <div className="h-60 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="month" tick={{ fontSize: 9, fontWeight: 700 }} stroke="#cbd5e1" />
+                <YAxis hide />
+                <Tooltip formatter={(value: number, name: string) => [`¥${value.toLocaleString()}`, name === 'spent' ? '支出' : '限额']} contentStyle={{ borderRadius: '2px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', fontSize: '10px', fontWeight: 900 }} />
+                <Legend formatter={(value: string) => value === 'spent' ? '支出' : '限额'} wrapperStyle={{ fontSize: '10px', fontWeight: 900 }} />
+                <Bar dataKey="limit" fill="#e2e8f0" radius={[2, 2, 0, 0]} />
+                <Bar dataKey="spent" fill={themeColor} radius={[2, 2, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetHistoryModal;
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { Budget, Transaction } from '../types';
+import { TOTAL_BUDGET_CATEGORY } from '../services/budgetService';
+import { formatTransactionDate } from '../services/ledgerService';
+import { parseCSV, readBillFile, detectLayout, buildImportRows, BillLayout, ColumnMapping, ImportRow } from '../services/csvService';
+
+interface CsvImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budgets: Budget[];
+  themeColor: string;
+  onCommit: (entries: { budgetIndex: number; transaction: Transaction }[]) => void;
+}
+
+const LAYOUT_LABELS: Record<BillLayout, string> = {
+  alipay: '支付宝账单',
+  wechat: '微信支付账单',
+  custom: '自定义列映射'
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; required?: boolean }[] = [
+  { key: 'date', label: '交易时间', required: true },
+  { key: 'amount', label: '金额', required: true },
+  { key: 'direction', label: '收/支' },
+  { key: 'counterparty', label: '交易对方' },
+  { key: 'note', label: '商品/备注' },
+  { key: 'category', label: '交易分类' },
+  { key: 'id', label: '交易单号' }
+];
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ isOpen, onClose, budgets, themeColor, onCommit }) => {
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [layout, setLayout] = useState<BillLayout>('custom');
+  const [headerIndex, setHeaderIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState('');
+
+  const budgetOptions = useMemo(
+    () => budgets.map((b, i) => ({ b, i })).filter(({ b }) => b.category !== TOTAL_BUDGET_CATEGORY),
+    [budgets]
+  );
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setStep('file');
+    setRows([]);
+    setMapping(null);
+    setImportRows([]);
+    setSelected({});
+    setError('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseCSV(await readBillFile(file));
+      if (parsed.length < 2) throw new Error('文件中没有可识别的数据行');
+      const detected = detectLayout(parsed);
+      setRows(parsed);
+      setLayout(detected.layout);
+      setHeaderIndex(detected.headerIndex);
+      setMapping(detected.mapping);
+      setError('');
+      setStep('map');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '文件读取失败');
+    }
+  };
+
+  const handlePreview = () => {
+    if (!mapping || mapping.date < 0 || mapping.amount < 0) {
+      setError('请至少指定交易时间与金额所在列');
+      return;
+    }
+    const built = buildImportRows(rows, headerIndex, mapping, budgets);
+    setImportRows(built);
+    // 默认只勾选未重复的支出
+    setSelected(Object.fromEntries(built.map(r => [r.key, r.direction === 'expense' && !r.isDuplicate])));
+    setError('');
+    setStep('preview');
+  };
+
+  const handleCommit = () => {
+    const entries = importRows
+      .filter(r => selected[r.key] && r.budgetIndex !== null)
+      .map(r => ({
+        budgetIndex: r.budgetIndex as number,
+        transaction: {
+          id: r.externalId || `import-${Date.now()}-${r.key}`,
+          amount: r.direction === 'income' ? -r.amount : r.amount,
+          date: r.date,
+          note: r.note || '账单导入'
+        }
+      }));
+    onCommit(entries);
+    handleClose();
+  };
+
+  const header = rows[headerIndex] || [];
+  const selectedRows = importRows.filter(r => selected[r.key]);
+  const unassigned = selectedRows.filter(r => r.budgetIndex === null).length;
+
+  return (
+    <div className="fixed inset-0 z-[140] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-xl">
+      <div className="bg-white rounded-[4px] w-full max-w-2xl p-8 shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-black uppercase">导入账单</h2>
+            <p className="text-xs font-bold text-slate-400 mt-1">{step === 'file' ? '支持支付宝、微信支付及银行导出的 CSV' : LAYOUT_LABELS[layout]}</p>
+          </div>
+          <button onClick={handleClose} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-500 font-black text-[10px] uppercase tracking-widest rounded-[2px]">关闭</button>
+        </div>
+
+        {error && <p className="mb-4 text-[10px] font-bold text-rose-500 bg-rose-50 border border-rose-100 rounded-[2px] px-3 py-2">{error}</p>}
+
+        {step === 'file' && (
+          <label className="flex flex-col items-center justify-center h-40 border-2 border-dashed border-slate-200 rounded-[4px] cursor-pointer hover:border-slate-400 transition-colors">
+            <span className="text-xs font-black text-slate-500">选择 CSV 文件</span>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])} />
+          </label>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">表头所在行</label>
+              <select value={headerIndex} onChange={e => setHeaderIndex(Number(e.target.value))} className="w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-bold">
+                {rows.slice(0, 30).map((r, i) => <option key={i} value={i}>第 {i + 1} 行：{r.slice(0, 4).join(' | ')}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {MAPPING_FIELDS.map(f => (
+                <div key={f.key}>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">{f.label}{f.required ? ' *' : ''}</label>
+                  <select value={mapping[f.key]} onChange={e => setMapping({ ...mapping, [f.key]: Number(e.target.value) })} className="w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-bold bg-slate-50">
+                    <option value={-1}>—</option>
+                    {header.map((h, i) => <option key={i} value={i}>{h || `第 ${i + 1} 列`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 pt-2">
+              <button onClick={reset} className="flex-1 py-3 text-slate-400 font-black text-xs uppercase border border-slate-100 rounded-[4px]">重新选择</button>
+              <button onClick={handlePreview} style={{ backgroundColor: themeColor }} className="flex-1 py-3 text-white font-black text-xs uppercase rounded-[4px] shadow-md">预览</button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex-1 overflow-y-auto space-y-1.5 pr-2">
+              {importRows.length === 0 && <p className="text-[10px] font-bold text-slate-400 py-4 text-center">没有可导入的行</p>}
+              {importRows.map(r => (
+                <div key={r.key} className={`flex items-center gap-2 p-2 rounded-[2px] border ${r.isDuplicate ? 'bg-slate-50 border-slate-100 opacity-60' : 'bg-white border-slate-100'}`}>
+                  <input type="checkbox" checked={!!selected[r.key]} onChange={e => setSelected(prev => ({ ...prev, [r.key]: e.target.checked }))} />
+                  <span className="text-[9px] font-mono font-black text-slate-400 w-20 flex-shrink-0">{formatTransactionDate(r.date)}</span>
+                  <span className="text-[10px] font-bold text-slate-600 flex-1 min-w-0 truncate">
+                    {r.isDuplicate && <span className="text-amber-500 mr-1">[重复]</span>}
+                    {r.direction === 'income' && <span className="text-emerald-500 mr-1">[收入]</span>}
+                    {r.note}
+                  </span>
+                  <select value={r.budgetIndex ?? ''} onChange={e => setImportRows(prev => prev.map(x => x.key === r.key ? { ...x, budgetIndex: e.target.value === '' ? null : Number(e.target.value) } : x))} className="w-28 px-1 py-1 border border-slate-200 rounded-[2px] text-[10px] font-bold">
+                    <option value="">未分配</option>
+                    {budgetOptions.map(({ b, i }) => <option key={i} value={i}>{b.subCategory || b.category}</option>)}
+                  </select>
+                  <span className="text-[11px] font-black font-mono w-20 text-right">¥{r.amount.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+            <div className="pt-4 mt-4 border-t border-slate-100 space-y-3">
+              <p className="text-[10px] font-bold text-slate-400">已选 {selectedRows.length} 条{unassigned > 0 ? `，其中 ${unassigned} 条未分配预算将被跳过` : ''}</p>
+              <div className="flex gap-3">
+                <button onClick={() => setStep('map')} className="flex-1 py-3 text-slate-400 font-black text-xs uppercase border border-slate-100 rounded-[4px]">上一步</button>
+                <button onClick={handleCommit} disabled={selectedRows.length - unassigned === 0} style={{ backgroundColor: themeColor }} className="flex-1 py-3 text-white font-black text-xs uppercase rounded-[4px] shadow-md disabled:opacity-40">导入 {selectedRows.length - unassigned} 条</button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
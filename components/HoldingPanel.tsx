@@ -0,0 +1,130 @@
+import React, { useState, useMemo } from 'react';
+import { Holding, HoldingEvent, HoldingEventType } from '../types';
+import { summarizeHolding, setNav } from '../services/holdingService';
+import { formatMoney } from '../services/fxService';
+
+interface HoldingPanelProps {
+  holding: Holding;
+  currency: string;
+  themeColor: string;
+  onChange: (holding: Holding) => void;
+  onImportNav?: (file: File) => void;
+}
+
+const EVENT_LABELS: Record<HoldingEventType, string> = {
+  buy: '买入',
+  sell: '卖出',
+  dividend: '分红'
+};
+
+const signed = (value: number, currency: string) => `${value > 0 ? '+' : ''}${formatMoney(value, currency)}`;
+
+const HoldingPanel: React.FC<HoldingPanelProps> = ({ holding, currency, themeColor, onChange, onImportNav }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [navInput, setNavInput] = useState('');
+  const [draft, setDraft] = useState({ type: 'buy' as HoldingEventType, date: today, units: '', price: '', fee: '', amount: '' });
+
+  const summary = useMemo(() => summarizeHolding(holding), [holding]);
+  const events = useMemo(() => [...holding.events].sort((a, b) => b.date.localeCompare(a.date)), [holding.events]);
+
+  const handleSetNav = () => {
+    const nav = parseFloat(navInput);
+    if (!(nav > 0)) return;
+    onChange(setNav(holding, nav));
+    setNavInput('');
+  };
+
+  const handleAddEvent = () => {
+    const units = parseFloat(draft.units) || 0;
+    const price = parseFloat(draft.price) || 0;
+    const amount = parseFloat(draft.amount) || 0;
+    if (draft.type === 'dividend' ? amount <= 0 : units <= 0 || price <= 0) return;
+    if (draft.type === 'sell' && units > summary.units) {
+      alert(`卖出份额超过当前持有的 ${summary.units} 份`);
+      return;
+    }
+    const event: HoldingEvent = {
+      id: Date.now().toString(),
+      type: draft.type,
+      date: draft.date || today,
+      units,
+      price,
+      fee: parseFloat(draft.fee) || undefined,
+      amount: draft.type === 'dividend' ? amount : undefined
+    };
+    onChange({ ...holding, events: [...holding.events, event] });
+    setDraft(prev => ({ ...prev, units: '', price: '', fee: '', amount: '' }));
+  };
+
+  const metrics = [
+    { label: '持有份额', value: summary.units.toLocaleString() },
+    { label: '成本单价', value: summary.costPerUnit.toFixed(4) },
+    { label: '最新净值', value: holding.nav.toFixed(4) },
+    { label: '持仓成本', value: formatMoney(summary.costBasis, currency) },
+    { label: '已实现收益', value: signed(summary.realisedGain, currency), tone: summary.realisedGain },
+    { label: '未实现收益', value: signed(summary.unrealisedGain, currency), tone: summary.unrealisedGain },
+    { label: '累计分红', value: formatMoney(summary.dividends, currency) },
+    { label: '总收益率', value: `${summary.totalReturnPercent > 0 ? '+' : ''}${summary.totalReturnPercent}%`, tone: summary.totalReturn },
+    { label: '年化 (XIRR)', value: summary.xirr !== undefined ? `${(summary.xirr * 100).toFixed(2)}%` : '—', tone: summary.xirr }
+  ];
+
+  const inputClass = 'min-w-0 px-2 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-bold bg-slate-50 outline-none';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {metrics.map(m => (
+          <div key={m.label} className="p-2 bg-slate-50 border border-slate-100 rounded-[2px]">
+            <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">{m.label}</span>
+            <span className={`text-[11px] font-mono font-black ${m.tone === undefined || m.tone === 0 ? 'text-slate-900' : m.tone > 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{m.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input type="number" step="0.0001" value={navInput} onChange={e => setNavInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSetNav()} className={`${inputClass} flex-1`} placeholder={`更新今日净值（${holding.code || '当前'} ${holding.nav}）`} />
+        <button onClick={handleSetNav} style={{ backgroundColor: themeColor }} className="px-4 text-white font-black text-[10px] uppercase rounded-[2px]">更新净值</button>
+        {onImportNav && (
+          <label className="px-3 flex items-center border border-slate-200 bg-slate-50 text-slate-600 font-black text-[10px] uppercase rounded-[2px] hover:bg-slate-100 cursor-pointer">
+            导入净值
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onImportNav(file); }} />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">交易记录</h3>
+        <div className="flex gap-1.5 mb-2">
+          <select value={draft.type} onChange={e => setDraft(prev => ({ ...prev, type: e.target.value as HoldingEventType }))} className={`${inputClass} w-16`}>
+            {(Object.keys(EVENT_LABELS) as HoldingEventType[]).map(t => <option key={t} value={t}>{EVENT_LABELS[t]}</option>)}
+          </select>
+          <input type="date" value={draft.date} onChange={e => setDraft(prev => ({ ...prev, date: e.target.value }))} className={`${inputClass} w-28 font-mono`} />
+          {draft.type === 'dividend' && (
+            <input type="number" step="0.01" value={draft.amount} onChange={e => setDraft(prev => ({ ...prev, amount: e.target.value }))} className={`${inputClass} flex-1`} placeholder="分红金额" />
+          )}
+          <input type="number" step="0.01" value={draft.units} onChange={e => setDraft(prev => ({ ...prev, units: e.target.value }))} className={`${inputClass} flex-1`} placeholder={draft.type === 'dividend' ? '再投份额' : '份额'} />
+          <input type="number" step="0.0001" value={draft.price} onChange={e => setDraft(prev => ({ ...prev, price: e.target.value }))} className={`${inputClass} flex-1`} placeholder="净值" />
+          {draft.type !== 'dividend' && (
+            <input type="number" step="0.01" value={draft.fee} onChange={e => setDraft(prev => ({ ...prev, fee: e.target.value }))} className={`${inputClass} w-14`} placeholder="费用" />
+          )}
+          <button onClick={handleAddEvent} className="px-3 bg-slate-900 text-white font-black text-[10px] rounded-[2px]">添加</button>
+        </div>
+        <div className="max-h-32 overflow-y-auto space-y-1 pr-2 no-scrollbar">
+          {events.length === 0 && <p className="text-[10px] font-bold text-slate-400 py-2 text-center">暂无交易记录</p>}
+          {events.map(e => (
+            <div key={e.id} className="flex items-center gap-3 py-1.5 px-3 hover:bg-slate-50 rounded-[2px] transition-colors">
+              <span className="text-[10px] font-bold text-slate-400 font-mono w-20">{e.date}</span>
+              <span className={`text-[10px] font-black w-8 ${e.type === 'sell' ? 'text-rose-500' : e.type === 'dividend' ? 'text-amber-500' : 'text-emerald-500'}`}>{EVENT_LABELS[e.type]}</span>
+              <span className="text-[10px] font-mono font-bold text-slate-600 flex-1">
+                {e.type === 'dividend' ? `${formatMoney(e.amount || 0, currency)}${e.units > 0 ? ` · 再投 ${e.units} 份` : ''}` : `${e.units} 份 @ ${e.price}${e.fee ? ` · 费用 ${e.fee}` : ''}`}
+              </span>
+              <button onClick={() => onChange({ ...holding, events: holding.events.filter(x => x.id !== e.id) })} className="text-[10px] font-black text-rose-400 hover:text-rose-600">删除</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HoldingPanel;
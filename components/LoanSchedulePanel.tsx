@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { Loan } from '../types';
+import { summarizeLoan, REPAYMENT_METHOD_LABELS, ScheduleRow } from '../services/loanService';
+import { formatMoney } from '../services/fxService';
+
+interface LoanSchedulePanelProps {
+  loan: Loan;
+  currency: string;
+  themeColor: string;
+  onPay: (row: ScheduleRow) => void;
+  onUndo: () => void;
+}
+
+const LoanSchedulePanel: React.FC<LoanSchedulePanelProps> = ({ loan, currency, themeColor, onPay, onUndo }) => {
+  const { schedule, totalInterest, paidPrincipal, remainingPeriods, next } = useMemo(() => summarizeLoan(loan), [loan]);
+
+  const metrics = [
+    { label: '还款方式', value: REPAYMENT_METHOD_LABELS[loan.method] },
+    { label: '年利率', value: `${loan.annualRate}%` },
+    { label: '贷款本金', value: formatMoney(loan.principal, currency) },
+    { label: '已还本金', value: formatMoney(paidPrincipal, currency) },
+    { label: '总利息', value: formatMoney(totalInterest, currency) },
+    { label: '剩余期数', value: `${remainingPeriods} 期` }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {metrics.map(m => (
+          <div key={m.label} className="p-2 bg-slate-50 border border-slate-100 rounded-[2px]">
+            <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">{m.label}</span>
+            <span className="text-[11px] font-mono font-black text-slate-900">{m.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {next && (
+        <div className="flex items-center justify-between p-3 rounded-[2px] border border-slate-100">
+          <div>
+            <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">第 {next.period} 期 · {next.dueDate}</span>
+            <span className="text-sm font-mono font-black text-slate-900">{formatMoney(next.payment, currency)}</span>
+            <span className="text-[10px] font-bold text-slate-400 ml-2">本金 {next.principal.toLocaleString()} / 利息 {next.interest.toLocaleString()}</span>
+          </div>
+          <button onClick={() => onPay(next)} style={{ backgroundColor: themeColor }} className="px-4 py-2 text-white font-black text-[10px] uppercase rounded-[2px]">标记已还</button>
+        </div>
+      )}
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">还款计划</h3>
+          {loan.payments.length > 0 && <button onClick={onUndo} className="text-[10px] font-black text-slate-400 hover:text-rose-500">撤销上一期</button>}
+        </div>
+        <div className="grid grid-cols-[2.5rem_5.5rem_1fr_1fr_1fr_1fr] gap-2 px-3 pb-1 text-[8px] font-black text-slate-400 uppercase tracking-widest">
+          <span>期数</span><span>还款日</span><span className="text-right">月供</span><span className="text-right">本金</span><span className="text-right">利息</span><span className="text-right">剩余本金</span>
+        </div>
+        <div className="max-h-48 overflow-y-auto space-y-0.5 pr-2 no-scrollbar">
+          {schedule.map(r => (
+            <div key={r.period} className={`grid grid-cols-[2.5rem_5.5rem_1fr_1fr_1fr_1fr] gap-2 py-1.5 px-3 rounded-[2px] text-[10px] font-mono font-bold ${r.paid ? 'text-slate-300 line-through' : 'text-slate-600 hover:bg-slate-50'}`}>
+              <span>{r.period}</span>
+              <span>{r.dueDate}</span>
+              <span className="text-right text-slate-900">{r.payment.toLocaleString()}</span>
+              <span className="text-right">{r.principal.toLocaleString()}</span>
+              <span className="text-right">{r.interest.toLocaleString()}</span>
+              <span className="text-right">{r.balance.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoanSchedulePanel;
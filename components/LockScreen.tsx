@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // 数据解锁前就要输入口令，这里先移除首屏加载层
+  useEffect(() => {
+    const loader = document.getElementById('initial-loader');
+    if (loader) {
+      loader.style.opacity = '0';
+      setTimeout(() => loader.remove(), 500);
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-slate-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-[4px] w-full max-w-xs p-6 shadow-2xl space-y-4 border border-slate-100">
+        <div>
+          <h2 className="text-lg font-black uppercase tracking-tighter">已锁定</h2>
+          <p className="text-[10px] font-bold text-slate-400">数据已加密保存，输入启动口令后解锁</p>
+        </div>
+        <input
+          autoFocus
+          type="password"
+          value={passphrase}
+          onChange={e => { setPassphrase(e.target.value); setError(''); }}
+          className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-[4px] text-sm font-bold outline-none"
+          placeholder="启动口令"
+        />
+        {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        <button type="submit" disabled={!passphrase || isUnlocking} className="w-full py-3 bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest rounded-[4px] disabled:opacity-50">
+          {isUnlocking ? '正在解锁…' : '解锁'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
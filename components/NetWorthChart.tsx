@@ -0,0 +1,160 @@
+import React, { useState, useMemo } from 'react';
+import { AssetCategory, ChartAnnotation, NetWorthPoint } from '../types';
+import { formatMoney } from '../services/fxService';
+import { downsampleSeries } from '../services/historyService';
+import { ComposedChart, Area, Line, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+
+interface NetWorthChartProps {
+  series: NetWorthPoint[];
+  annotations: ChartAnnotation[];
+  categoryColors: Record<string, string>;
+  currency: string;
+  themeColor: string;
+  onAddAnnotation: (annotation: ChartAnnotation) => void;
+  onDeleteAnnotation: (id: string) => void;
+}
+
+type ChartRange = '1M' | '3M' | '1Y' | 'ALL';
+type ChartView = 'net' | 'stacked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<ChartRange, number> = { '1M': 30, '3M': 91, '1Y': 365, 'ALL': Infinity };
+const MAX_TOOLTIP_CONTRIBUTORS = 6;
+// 曲线最多绘制的点数，范围较长时降采样
+const MAX_CHART_POINTS = 180;
+
+const NetWorthTooltip: React.FC<{
+  active?: boolean;
+  payload?: { payload: NetWorthPoint }[];
+  currency: string;
+  annotations: ChartAnnotation[];
+}> = ({ active, payload, currency, annotations }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  const contributors = [...point.contributors].sort((a, b) => b.value - a.value).slice(0, MAX_TOOLTIP_CONTRIBUTORS);
+  const notes = annotations.filter(a => a.date === point.date);
+  return (
+    <div className="bg-white px-3 py-2 shadow-lg text-[10px] font-bold min-w-[180px]" style={{ borderRadius: '2px' }}>
+      <div className="flex justify-between gap-4 mb-1">
+        <span className="font-mono text-slate-400">{point.date}</span>
+        <span className="font-mono font-black text-slate-900">{formatMoney(point.value, currency)}</span>
+      </div>
+      {notes.map(n => <div key={n.id} className="text-amber-600 font-black">◆ {n.label}</div>)}
+      <div className="border-t border-slate-100 mt-1 pt-1 space-y-0.5">
+        {contributors.map(c => (
+          <div key={c.id} className="flex justify-between gap-4">
+            <span className="text-slate-500 truncate max-w-[120px]">{c.name}</span>
+            <span className={`font-mono ${c.category === AssetCategory.LIABILITY ? 'text-rose-500' : 'text-slate-700'}`}>{c.category === AssetCategory.LIABILITY ? '-' : ''}{formatMoney(c.value, currency)}</span>
+          </div>
+        ))}
+        {point.contributors.length > contributors.length && <div className="text-slate-300">另有 {point.contributors.length - contributors.length} 个账户</div>}
+      </div>
+    </div>
+  );
+};
+
+const NetWorthChart: React.FC<NetWorthChartProps> = ({ series, annotations, categoryColors, currency, themeColor, onAddAnnotation, onDeleteAnnotation }) => {
+  const [range, setRange] = useState<ChartRange>('ALL');
+  const [view, setView] = useState<ChartView>('net');
+  const [draft, setDraft] = useState({ date: '', label: '' });
+
+  const data = useMemo(() => {
+    const cutoff = Date.now() - RANGE_DAYS[range] * DAY_MS;
+    return downsampleSeries(series.filter(p => p.time >= cutoff), MAX_CHART_POINTS);
+  }, [series, range]);
+
+  const categories = useMemo(() => {
+    const seen = new Set<string>();
+    data.forEach(p => Object.keys(p.categories).forEach(c => seen.add(c)));
+    return Array.from(seen).sort((a, b) => (a === AssetCategory.LIABILITY ? 1 : 0) - (b === AssetCategory.LIABILITY ? 1 : 0));
+  }, [data]);
+
+  // 标注日期没有数据点时，贴到之后最近的一个数据点上
+  const pinned = useMemo(() => annotations
+    .map(a => ({ ...a, date: data.find(p => p.date >= a.date)?.date }))
+    .filter(a => a.date !== undefined),
+  [annotations, data]);
+
+  const handleAdd = () => {
+    if (!draft.date || !draft.label.trim()) return;
+    onAddAnnotation({ id: Date.now().toString(), date: draft.date, label: draft.label.trim() });
+    setDraft({ date: '', label: '' });
+  };
+
+  const toggleClass = (active: boolean) => `px-3 py-1.5 text-[10px] font-black uppercase rounded-[2px] border ${active ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-400 hover:text-slate-600'}`;
+
+  return (
+    <div className="space-y-4 mb-8">
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex gap-1">
+          {(Object.keys(RANGE_DAYS) as ChartRange[]).map(r => (
+            <button key={r} onClick={() => setRange(r)} className={toggleClass(range === r)}>{r === 'ALL' ? '全部' : r}</button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setView('net')} className={toggleClass(view === 'net')}>净资产</button>
+          <button onClick={() => setView('stacked')} className={toggleClass(view === 'stacked')}>按类别</button>
+        </div>
+      </div>
+
+      <div className="h-72 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} stackOffset="sign" onClick={(state) => state?.activeLabel && setDraft(prev => ({ ...prev, date: String(state.activeLabel) }))}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="date" hide />
+            <YAxis hide mirror />
+            <Tooltip content={<NetWorthTooltip currency={currency} annotations={pinned} />} />
+            {view === 'net' ? [
+              <Area key="net" type="monotone" dataKey="value" name="净资产" stroke={themeColor} strokeWidth={3} fillOpacity={0.05} fill={themeColor} />,
+              <Line key="assets" type="monotone" dataKey="assets" name="资产" stroke="#10b981" strokeWidth={1.5} dot={false} />,
+              <Line key="liabilities" type="monotone" dataKey="liabilities" name="负债" stroke="#ef4444" strokeWidth={1.5} dot={false} />
+            ] : categories.map(c => (
+              // 负债记为负值，stackOffset="sign" 使其堆叠在零轴以下
+              <Area
+                key={c}
+                type="monotone"
+                stackId="category"
+                dataKey={(p: NetWorthPoint) => (c === AssetCategory.LIABILITY ? -1 : 1) * (p.categories[c] || 0)}
+                name={c}
+                stroke={categoryColors[c] || '#64748b'}
+                fill={categoryColors[c] || '#64748b'}
+                fillOpacity={0.4}
+              />
+            ))}
+            {pinned.map(a => (
+              <ReferenceLine key={a.id} x={a.date} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: a.label, position: 'insideTopLeft', fill: '#d97706', fontSize: 10, fontWeight: 900 }} />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {view === 'net' && (
+        <div className="flex gap-4 text-[9px] font-black uppercase tracking-widest text-slate-400">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-0.5" style={{ backgroundColor: themeColor }} />净资产</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-emerald-500" />资产</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-rose-500" />负债</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input type="date" value={draft.date} onChange={e => setDraft(prev => ({ ...prev, date: e.target.value }))} className="w-32 px-2 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-mono font-bold bg-slate-50 outline-none" />
+          <input type="text" value={draft.label} onChange={e => setDraft(prev => ({ ...prev, label: e.target.value }))} onKeyDown={e => e.key === 'Enter' && handleAdd()} className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-bold bg-slate-50 outline-none" placeholder="添加标注，如：买车 / 年终奖（点击曲线可选日期）" />
+          <button onClick={handleAdd} style={{ backgroundColor: themeColor }} className="px-4 text-white font-black text-[10px] uppercase rounded-[2px]">标注</button>
+        </div>
+        {annotations.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {[...annotations].sort((a, b) => a.date.localeCompare(b.date)).map(a => (
+              <span key={a.id} className="flex items-center gap-1.5 px-2 py-1 bg-amber-50 border border-amber-100 rounded-[2px] text-[10px] font-bold text-amber-700">
+                <span className="font-mono text-amber-500">{a.date}</span>{a.label}
+                <button onClick={() => onDeleteAnnotation(a.id)} className="text-amber-400 hover:text-rose-500 font-black">×</button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NetWorthChart;
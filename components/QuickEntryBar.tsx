@@ -0,0 +1,100 @@
+import React, { useState, memo } from 'react';
+import { Budget, PendingEntry } from '../types';
+import { TOTAL_BUDGET_CATEGORY } from '../services/budgetService';
+import { Icons } from '../constants';
+
+interface QuickEntryBarProps {
+  budgets: Budget[];
+  pendingEntries: PendingEntry[];
+  themeColor: string;
+  onSubmit: (text: string) => Promise<string>;
+  onResolvePending: (id: string, budgetIndex: number, amount: number) => void;
+  onDiscardPending: (id: string) => void;
+}
+
+const PendingRow: React.FC<{
+  entry: PendingEntry;
+  budgets: Budget[];
+  themeColor: string;
+  onResolve: (budgetIndex: number, amount: number) => void;
+  onDiscard: () => void;
+}> = ({ entry, budgets, themeColor, onResolve, onDiscard }) => {
+  const [budgetIndex, setBudgetIndex] = useState('');
+  const [amount, setAmount] = useState(entry.amount?.toString() || '');
+  const parsedAmount = parseFloat(amount);
+  const canResolve = budgetIndex !== '' && !isNaN(parsedAmount) && parsedAmount !== 0;
+
+  return (
+    <div className="p-3 bg-amber-50/50 border border-amber-100 rounded-[2px] space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[11px] font-bold text-slate-700 truncate">{entry.text}</span>
+        <span className="text-[9px] font-mono font-black text-slate-400 flex-shrink-0 ml-2">{entry.date}</span>
+      </div>
+      <div className="flex gap-2">
+        <select value={budgetIndex} onChange={e => setBudgetIndex(e.target.value)} className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-bold bg-white">
+          <option value="">选择预算…</option>
+          {budgets.map((b, i) => b.category === TOTAL_BUDGET_CATEGORY ? null : (
+            <option key={i} value={i}>{b.category} / {b.subCategory || '未命名项目'}</option>
+          ))}
+        </select>
+        <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder="金额" className="w-20 px-2 py-1.5 border border-slate-200 rounded-[2px] text-[10px] font-bold bg-white" />
+        <button disabled={!canResolve} onClick={() => onResolve(Number(budgetIndex), parsedAmount)} style={{ backgroundColor: themeColor }} className="px-3 text-white text-[10px] font-black rounded-[2px] disabled:opacity-40">确认</button>
+        <button onClick={onDiscard} className="px-2 text-[10px] font-black text-slate-400 hover:text-rose-500">删除</button>
+      </div>
+    </div>
+  );
+};
+
+const QuickEntryBar: React.FC<QuickEntryBarProps> = memo(({ budgets, pendingEntries, themeColor, onSubmit, onResolvePending, onDiscardPending }) => {
+  const [text, setText] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+
+  const handleSubmit = async () => {
+    const trimmed = text.trim();
+    if (!trimmed || isParsing) return;
+    setIsParsing(true);
+    try {
+      setFeedback(await onSubmit(trimmed));
+      setText('');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSubmit()}
+          placeholder="一句话记账，如：昨天 打车 28.5 交通"
+          className="flex-1 min-w-0 px-4 h-10 bg-white border border-slate-200 rounded-[2px] text-xs font-bold outline-none focus:border-slate-400 shadow-sm"
+        />
+        <button onClick={handleSubmit} disabled={isParsing} style={{ backgroundColor: themeColor }} className="flex items-center justify-center px-4 h-10 text-white rounded-[2px] shadow-md active:scale-95 disabled:opacity-60">
+          <Icons.Plus className="w-4 h-4" />
+        </button>
+      </div>
+      {feedback && <p className="text-[10px] font-bold text-slate-400 px-1">{feedback}</p>}
+      {pendingEntries.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-500">待确认 {pendingEntries.length}</h3>
+          {pendingEntries.map(entry => (
+            <PendingRow
+              key={entry.id}
+              entry={entry}
+              budgets={budgets}
+              themeColor={themeColor}
+              onResolve={(budgetIndex, amount) => onResolvePending(entry.id, budgetIndex, amount)}
+              onDiscard={() => onDiscardPending(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default QuickEntryBar;
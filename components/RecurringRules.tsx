@@ -0,0 +1,288 @@
+import React, { useState, useMemo, memo } from 'react';
+import { createPortal } from 'react-dom';
+import { Asset, Budget, RecurrenceFrequency, RecurrenceOverride, RecurringOccurrence, RecurringRule } from '../types';
+import { TOTAL_BUDGET_CATEGORY } from '../services/budgetService';
+import { FREQUENCY_LABELS, describeRule, getOccurrenceDates, isRuleTargetMissing, toDateKey } from '../services/recurringService';
+import { Icons } from '../constants';
+
+interface RecurringRulesProps {
+  rules: RecurringRule[];
+  queue: RecurringOccurrence[];
+  budgets: Budget[];
+  assets: Asset[];
+  themeColor: string;
+  onSave: (rule: RecurringRule) => void;
+  onDelete: (id: string) => void;
+  onConfirm: (occurrences: RecurringOccurrence[]) => void;
+  onSkip: (id: string) => void;
+}
+
+const UPCOMING_COUNT = 6;
+
+interface Draft {
+  name: string;
+  target: 'budget' | 'asset';
+  budgetKey: string; // 分类/项目
+  assetId: string;
+  amount: string;
+  frequency: RecurrenceFrequency;
+  interval: string;
+  startDate: string;
+  endDate: string;
+  backfill: boolean;
+  overrides: RecurrenceOverride[];
+}
+
+const budgetKeyOf = (category?: string, subCategory?: string) => `${category || ''}/${subCategory || ''}`;
+
+const CatchUpRow: React.FC<{
+  occurrence: RecurringOccurrence;
+  rule?: RecurringRule;
+  themeColor: string;
+  onConfirm: (occurrence: RecurringOccurrence) => void;
+  onSkip: () => void;
+}> = ({ occurrence, rule, themeColor, onConfirm, onSkip }) => {
+  const [amount, setAmount] = useState(occurrence.amount.toString());
+  const parsedAmount = parseFloat(amount);
+
+  return (
+    <div className="flex items-center gap-2 p-2 bg-amber-50/50 border border-amber-100 rounded-[2px]">
+      <span className="text-[11px] font-bold text-slate-700 truncate flex-1">{rule?.name || '已删除的规则'}</span>
+      <span className="text-[9px] font-mono font-black text-slate-400 flex-shrink-0">{occurrence.date}</span>
+      <input type="number" value={amount} onChange={e => setAmount(e.target.value)} className="w-20 px-2 py-1 border border-slate-200 rounded-[2px] text-[10px] font-bold bg-white" />
+      <button disabled={isNaN(parsedAmount) || !rule} onClick={() => onConfirm({ ...occurrence, amount: parsedAmount })} style={{ backgroundColor: themeColor }} className="px-3 py-1 text-white text-[10px] font-black rounded-[2px] disabled:opacity-40">补记</button>
+      <button onClick={onSkip} className="px-1 text-[10px] font-black text-slate-400 hover:text-rose-500">跳过</button>
+    </div>
+  );
+};
+
+const RecurringRules: React.FC<RecurringRulesProps> = memo(({ rules, queue, budgets, assets, themeColor, onSave, onDelete, onConfirm, onSkip }) => {
+  const today = toDateKey(new Date());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const budgetOptions = budgets.filter(b => b.category !== TOTAL_BUDGET_CATEGORY);
+  const assetOptions = assets.filter(a => !a.holding);
+
+  const nextDates = useMemo(
+    () => new Map(rules.map(r => [r.id, getOccurrenceDates(r, r.lastRun && r.lastRun > today ? r.lastRun : today, '9999-12-31', 1)[0]])),
+    [rules, today]
+  );
+
+  const draftRule = useMemo((): RecurringRule | null => {
+    if (!draft?.startDate) return null;
+    return {
+      id: editingId || 'new',
+      name: draft.name,
+      target: draft.target,
+      amount: parseFloat(draft.amount) || 0,
+      frequency: draft.frequency,
+      interval: Math.max(1, parseInt(draft.interval) || 1),
+      startDate: draft.startDate,
+      endDate: draft.endDate || undefined,
+      overrides: draft.overrides
+    };
+  }, [draft, editingId]);
+  const upcoming = useMemo(
+    () => draftRule ? getOccurrenceDates(draftRule, today, '9999-12-31', UPCOMING_COUNT) : [],
+    [draftRule, today]
+  );
+
+  const openEditor = (rule?: RecurringRule) => {
+    setEditingId(rule?.id || 'new');
+    setDraft(rule ? {
+      name: rule.name,
+      target: rule.target,
+      budgetKey: budgetKeyOf(rule.category, rule.subCategory),
+      assetId: rule.assetId || '',
+      amount: rule.amount.toString(),
+      frequency: rule.frequency,
+      interval: rule.interval.toString(),
+      startDate: rule.startDate,
+      endDate: rule.endDate || '',
+      backfill: false,
+      overrides: rule.overrides || []
+    } : {
+      name: '',
+      target: 'budget',
+      budgetKey: budgetOptions[0] ? budgetKeyOf(budgetOptions[0].category, budgetOptions[0].subCategory) : '',
+      assetId: assetOptions[0]?.id || '',
+      amount: '',
+      frequency: 'monthly',
+      interval: '1',
+      startDate: today,
+      endDate: '',
+      backfill: false,
+      overrides: []
+    });
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const setOverride = (date: string, updates: Omit<RecurrenceOverride, 'date'>) => setDraft(prev => {
+    const merged = { ...prev.overrides.find(o => o.date === date), ...updates, date };
+    const rest = prev.overrides.filter(o => o.date !== date);
+    return { ...prev, overrides: merged.skip || merged.amount !== undefined ? [...rest, merged] : rest };
+  });
+
+  const handleSave = () => {
+    if (!draft || !draftRule || !draft.name.trim() || draftRule.amount === 0) return;
+    const [category, subCategory] = draft.budgetKey.split('/');
+    if (draft.target === 'budget' ? !category : !draft.assetId) return;
+    const existing = rules.find(r => r.id === editingId);
+    // 新规则默认不补记开始日期之前已经过去的各期
+    const yesterday = toDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    const lastRun = existing ? existing.lastRun : !draft.backfill && draft.startDate < today ? yesterday : undefined;
+    onSave({
+      ...draftRule,
+      id: existing?.id || Date.now().toString(),
+      name: draft.name.trim(),
+      category: draft.target === 'budget' ? category : undefined,
+      subCategory: draft.target === 'budget' ? subCategory || undefined : undefined,
+      assetId: draft.target === 'asset' ? draft.assetId : undefined,
+      lastRun,
+      overrides: draft.overrides.filter(o => o.date > today)
+    });
+    closeEditor();
+  };
+
+  const handleDelete = () => {
+    if (!confirm('确定删除这条周期规则吗？已生成的流水不受影响。')) return;
+    onDelete(editingId);
+    closeEditor();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-bold bg-white';
+
+  return (
+    <div className="mb-6 bg-white border border-slate-200/80 shadow-sm p-4 space-y-3" style={{ borderRadius: '4px' }}>
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">周期记账</h3>
+        <button onClick={() => openEditor()} className="h-7 w-7 flex items-center justify-center bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-[2px] text-slate-500">
+          <Icons.Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {queue.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-500">错过的周期 {queue.length}</h3>
+            <button onClick={() => onConfirm(queue)} className="text-[10px] font-black text-slate-500 hover:text-slate-900">全部补记</button>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-1 no-scrollbar">
+            {queue.map(o => (
+              <CatchUpRow key={o.id} occurrence={o} rule={rules.find(r => r.id === o.ruleId)} themeColor={themeColor} onConfirm={occurrence => onConfirm([occurrence])} onSkip={() => onSkip(o.id)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && <p className="text-[10px] font-bold text-slate-400 text-center py-1">房租、订阅、工资、定存等按周期自动记录</p>}
+      <div className="space-y-1">
+        {rules.map(r => {
+          const next = nextDates.get(r.id);
+          const missing = isRuleTargetMissing(r, budgets, assets);
+          return (
+            <button key={r.id} onClick={() => openEditor(r)} className="w-full flex items-center gap-3 px-3 py-2 border border-slate-100 rounded-[2px] hover:border-slate-200 text-left">
+              <div className="min-w-0 flex-1">
+                <div className="text-[11px] font-black text-slate-900 truncate">{r.name}</div>
+                <div className={`text-[9px] font-bold ${missing ? 'text-rose-500' : 'text-slate-400'}`}>
+                  {describeRule(r)} · {missing ? '目标已不存在' : r.target === 'budget' ? `${r.category} / ${r.subCategory || '未命名项目'}` : assets.find(a => a.id === r.assetId)?.name}
+                </div>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <div className="text-[11px] font-mono font-black text-slate-700">{r.target === 'asset' && r.amount > 0 ? '+' : ''}{r.amount.toLocaleString()}</div>
+                <div className="text-[9px] font-mono font-bold text-slate-400">{next ? `下次 ${next}` : '已结束'}</div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* 页面容器带有 transform，弹窗需挂到 body 上才能正确铺满 */}
+      {editingId && draft && createPortal(
+        <div className="fixed inset-0 z-[140] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-xl" onClick={closeEditor}>
+          <div className="bg-white rounded-[4px] w-full max-w-sm p-6 shadow-2xl space-y-3 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <h2 className="text-lg font-black uppercase tracking-tighter">{editingId === 'new' ? '新建周期规则' : '编辑周期规则'}</h2>
+            <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="例如：房租 / 工资 / 视频会员" />
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { id: 'budget', label: '预算流水' },
+                { id: 'asset', label: '资产增减' }
+              ] as { id: Draft['target'], label: string }[]).map(t => (
+                <button key={t.id} onClick={() => setDraft({ ...draft, target: t.id })} style={{ borderColor: draft.target === t.id ? themeColor : undefined, color: draft.target === t.id ? themeColor : undefined }} className="py-2 text-[10px] font-black uppercase rounded-[4px] border border-slate-200 text-slate-400">{t.label}</button>
+              ))}
+            </div>
+            {draft.target === 'budget' ? (
+              <select value={draft.budgetKey} onChange={e => setDraft({ ...draft, budgetKey: e.target.value })} className={inputClass}>
+                {budgetOptions.map(b => {
+                  const key = budgetKeyOf(b.category, b.subCategory);
+                  return <option key={key} value={key}>{b.category} / {b.subCategory || '未命名项目'}</option>;
+                })}
+              </select>
+            ) : (
+              <select value={draft.assetId} onChange={e => setDraft({ ...draft, assetId: e.target.value })} className={inputClass}>
+                {assetOptions.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            )}
+            <input type="number" step="0.01" value={draft.amount} onChange={e => setDraft({ ...draft, amount: e.target.value })} className={inputClass} placeholder={draft.target === 'budget' ? '每期金额' : '每期增减，负数表示减少'} />
+            <div className="grid grid-cols-2 gap-2">
+              <select value={draft.frequency} onChange={e => setDraft({ ...draft, frequency: e.target.value as RecurrenceFrequency })} className={inputClass}>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+              </select>
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-slate-400 flex-shrink-0">每</span>
+                <input type="number" min="1" value={draft.interval} onChange={e => setDraft({ ...draft, interval: e.target.value })} className={inputClass} />
+                <span className="text-[10px] font-bold text-slate-400 flex-shrink-0">期</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">首期日期</label>
+                <input type="date" value={draft.startDate} onChange={e => setDraft({ ...draft, startDate: e.target.value })} className={`${inputClass} font-mono`} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">结束日期（可选）</label>
+                <input type="date" value={draft.endDate} onChange={e => setDraft({ ...draft, endDate: e.target.value })} className={`${inputClass} font-mono`} />
+              </div>
+            </div>
+            {editingId === 'new' && draft.startDate && draft.startDate < today && (
+              <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500">
+                <input type="checkbox" checked={draft.backfill} onChange={e => setDraft({ ...draft, backfill: e.target.checked })} />
+                将首期日期以来已过去的各期加入补记列表
+              </label>
+            )}
+            {upcoming.length > 0 && (
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">接下来的 {upcoming.length} 期</label>
+                <div className="space-y-1">
+                  {upcoming.map(date => {
+                    const override = draft.overrides.find(o => o.date === date);
+                    return (
+                      <div key={date} className={`flex items-center gap-2 px-2 py-1 rounded-[2px] ${override?.skip ? 'bg-slate-50 text-slate-300' : ''}`}>
+                        <span className={`text-[10px] font-mono font-bold flex-1 ${override?.skip ? 'line-through' : 'text-slate-600'}`}>{date}</span>
+                        <input type="number" step="0.01" disabled={override?.skip} value={override?.amount ?? ''} onChange={e => setOverride(date, { amount: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className="w-20 px-2 py-1 border border-slate-200 rounded-[2px] text-[10px] font-bold disabled:bg-slate-50" placeholder={draft.amount || '金额'} />
+                        <button onClick={() => setOverride(date, { skip: !override?.skip })} className="w-10 text-[10px] font-black text-slate-400 hover:text-slate-900">{override?.skip ? '恢复' : '跳过'}</button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2 pt-2">
+              {editingId !== 'new' && <button onClick={handleDelete} className="px-4 py-2.5 text-rose-500 font-black text-[10px] uppercase border border-rose-100 rounded-[4px]">删除</button>}
+              <button onClick={closeEditor} className="flex-1 py-2.5 text-slate-400 font-black text-[10px] uppercase border border-slate-100 rounded-[4px]">取消</button>
+              <button onClick={handleSave} style={{ backgroundColor: themeColor }} className="flex-1 py-2.5 text-white font-black text-[10px] uppercase rounded-[4px]">保存</button>
+            </div>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+});
+
+export default RecurringRules;
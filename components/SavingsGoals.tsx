@@ -0,0 +1,157 @@
+import React, { useState, useMemo, memo } from 'react';
+import { createPortal } from 'react-dom';
+import { Asset, AssetCategory, SavingsGoal } from '../types';
+import { projectGoal } from '../services/goalService';
+import { formatMoney } from '../services/fxService';
+import { Icons } from '../constants';
+
+interface SavingsGoalsProps {
+  goals: SavingsGoal[];
+  assets: Asset[]; // 已折算为本位币
+  baseCurrency: string;
+  themeColor: string;
+  onChange: (goals: SavingsGoal[]) => void;
+}
+
+const ProgressRing: React.FC<{ progress: number; color: string; size?: number }> = ({ progress, color, size = 56 }) => {
+  const stroke = 5;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  return (
+    <svg width={size} height={size} className="flex-shrink-0">
+      <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#f1f5f9" strokeWidth={stroke} />
+      <circle
+        cx={size / 2} cy={size / 2} r={radius} fill="none" stroke={color} strokeWidth={stroke} strokeLinecap="round"
+        strokeDasharray={circumference} strokeDashoffset={circumference * (1 - progress)}
+        transform={`rotate(-90 ${size / 2} ${size / 2})`} className="transition-all duration-1000"
+      />
+      <text x="50%" y="50%" dominantBaseline="central" textAnchor="middle" className="text-[11px] font-black fill-slate-900">
+        {Math.round(progress * 100)}%
+      </text>
+    </svg>
+  );
+};
+
+const EMPTY_DRAFT = { name: '', targetAmount: '', targetDate: '', assetIds: [] as string[] };
+
+const SavingsGoals: React.FC<SavingsGoalsProps> = memo(({ goals, assets, baseCurrency, themeColor, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const projections = useMemo(
+    () => new Map(goals.map(g => [g.id, projectGoal(g, assets)])),
+    [goals, assets]
+  );
+
+  const openEditor = (goal?: SavingsGoal) => {
+    setEditingId(goal?.id || 'new');
+    setDraft(goal
+      ? { name: goal.name, targetAmount: goal.targetAmount.toString(), targetDate: goal.targetDate, assetIds: goal.assetIds }
+      : EMPTY_DRAFT);
+  };
+
+  const handleSave = () => {
+    const targetAmount = parseFloat(draft.targetAmount);
+    if (!draft.name.trim() || !(targetAmount > 0) || !draft.targetDate) return;
+    const fields = { name: draft.name.trim(), targetAmount, targetDate: draft.targetDate, assetIds: draft.assetIds };
+    onChange(editingId === 'new'
+      ? [...goals, { id: Date.now().toString(), createdAt: new Date().toISOString(), ...fields }]
+      : goals.map(g => g.id === editingId ? { ...g, ...fields } : g));
+    setEditingId(null);
+  };
+
+  const handleDelete = () => {
+    if (!confirm('确定删除这个目标吗？关联账户不受影响。')) return;
+    onChange(goals.filter(g => g.id !== editingId));
+    setEditingId(null);
+  };
+
+  const toggleAsset = (id: string) => setDraft(prev => ({
+    ...prev,
+    assetIds: prev.assetIds.includes(id) ? prev.assetIds.filter(x => x !== id) : [...prev.assetIds, id]
+  }));
+
+  return (
+    <section className="bg-white border border-slate-200/80 shadow-sm p-5 space-y-4" style={{ borderRadius: '4px' }}>
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-1.5 rounded-full" style={{ backgroundColor: themeColor }} />
+          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">攒钱目标</h3>
+        </div>
+        <button onClick={() => openEditor()} className="h-7 w-7 flex items-center justify-center bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-[2px] text-slate-500">
+          <Icons.Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {goals.length === 0 && <p className="text-[10px] font-bold text-slate-400 text-center py-2">设定目标金额与日期，关联账户后自动估算每月需存金额</p>}
+
+      <div className="space-y-3">
+        {goals.map(goal => {
+          const p = projections.get(goal.id)!;
+          const color = goal.color || themeColor;
+          return (
+            <button key={goal.id} onClick={() => openEditor(goal)} className="w-full flex items-center gap-4 p-3 border border-slate-100 rounded-[2px] hover:border-slate-200 text-left">
+              <ProgressRing progress={p.progress} color={color} />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className="text-[12px] font-black text-slate-900 truncate">{goal.name}</span>
+                  <span className="text-[9px] font-mono font-bold text-slate-400 flex-shrink-0">{goal.targetDate}</span>
+                </div>
+                <div className="text-[11px] font-mono font-black text-slate-700">
+                  {formatMoney(p.current, baseCurrency)} <span className="text-slate-300">/ {formatMoney(goal.targetAmount, baseCurrency)}</span>
+                </div>
+                {p.remaining > 0 ? (
+                  <div className="text-[9px] font-bold text-slate-400">
+                    每月需存 <span className="font-mono text-slate-600">{formatMoney(p.requiredMonthly, baseCurrency)}</span>
+                    {' · '}近期 <span className="font-mono text-slate-600">{formatMoney(p.monthlyPace, baseCurrency)}</span>/月
+                  </div>
+                ) : (
+                  <div className="text-[9px] font-black text-emerald-500">已达成</div>
+                )}
+                {p.remaining > 0 && (
+                  <div className={`text-[9px] font-black ${p.isOverdue ? 'text-rose-500' : p.onTrack ? 'text-emerald-500' : 'text-amber-500'}`}>
+                    {p.isOverdue ? '已过截止日期' : p.onTrack ? `按当前速度 ${p.expectedDate} 达成` : p.expectedDate ? `按当前速度需到 ${p.expectedDate}` : '当前没有增长，无法预计达成时间'}
+                  </div>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* 页面容器带有 transform，弹窗需挂到 body 上才能正确铺满 */}
+      {editingId && createPortal(
+        <div className="fixed inset-0 z-[140] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-xl" onClick={() => setEditingId(null)}>
+          <div className="bg-white rounded-[4px] w-full max-w-sm p-6 shadow-2xl space-y-4" onClick={e => e.stopPropagation()}>
+            <h2 className="text-lg font-black uppercase tracking-tighter">{editingId === 'new' ? '新建目标' : '编辑目标'}</h2>
+            <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-bold" placeholder="例如：应急金 / 买车" />
+            <div className="grid grid-cols-2 gap-2">
+              <input type="number" step="0.01" value={draft.targetAmount} onChange={e => setDraft({ ...draft, targetAmount: e.target.value })} className="w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-bold" placeholder={`目标金额 (${baseCurrency})`} />
+              <input type="date" value={draft.targetDate} onChange={e => setDraft({ ...draft, targetDate: e.target.value })} className="w-full px-3 py-2 border border-slate-200 rounded-[4px] text-xs font-mono font-bold" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">关联账户</label>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {assets.filter(a => a.category !== AssetCategory.LIABILITY).map(a => (
+                  <label key={a.id} className="flex items-center gap-2 px-2 py-1.5 rounded-[2px] hover:bg-slate-50 cursor-pointer">
+                    <input type="checkbox" checked={draft.assetIds.includes(a.id)} onChange={() => toggleAsset(a.id)} />
+                    <span className="text-[11px] font-bold text-slate-700 flex-1 truncate">{a.name}</span>
+                    <span className="text-[10px] font-mono font-bold text-slate-400">{formatMoney(a.value, baseCurrency)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              {editingId !== 'new' && <button onClick={handleDelete} className="px-4 py-2.5 text-rose-500 font-black text-[10px] uppercase border border-rose-100 rounded-[4px]">删除</button>}
+              <button onClick={() => setEditingId(null)} className="flex-1 py-2.5 text-slate-400 font-black text-[10px] uppercase border border-slate-100 rounded-[4px]">取消</button>
+              <button onClick={handleSave} style={{ backgroundColor: themeColor }} className="flex-1 py-2.5 text-white font-black text-[10px] uppercase rounded-[4px]">保存</button>
+            </div>
+          </div>
+        </div>,
+        document.body
+      )}
+    </section>
+  );
+});
+
+export default SavingsGoals;
@@ -0,0 +1,89 @@
+import React, { useState, memo } from 'react';
+
+interface SecurityPanelProps {
+  isEncrypted: boolean;
+  isSupported: boolean;
+  themeColor: string;
+  onSetPassphrase: (passphrase: string | null) => Promise<void>;
+  onLock: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const SecurityPanel: React.FC<SecurityPanelProps> = memo(({ isEncrypted, isSupported, themeColor, onSetPassphrase, onLock }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = () => {
+    setIsEditing(false);
+    setPassphrase('');
+    setConfirmation('');
+    setError('');
+  };
+
+  const save = async (next: string | null) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSetPassphrase(next);
+      reset();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`口令至少 ${MIN_PASSPHRASE_LENGTH} 位`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('两次输入的口令不一致');
+      return;
+    }
+    save(passphrase);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-bold rounded-[4px] outline-none';
+  const buttonClass = 'flex-1 py-2.5 bg-slate-50 text-slate-600 font-bold text-[10px] uppercase rounded-[4px] border border-slate-200 disabled:opacity-40';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">启动口令</label>
+        <p className="text-[10px] font-bold text-slate-400 mt-1">
+          {!isSupported ? '当前浏览器不支持加密存储' : isEncrypted ? '本机数据已加密保存，打开应用时需输入口令' : '设置后本机数据加密保存，打开应用时需输入口令'}
+        </p>
+      </div>
+      {isSupported && (isEditing ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <input autoFocus type="password" value={passphrase} onChange={e => { setPassphrase(e.target.value); setError(''); }} className={inputClass} placeholder={isEncrypted ? '新口令' : '口令'} />
+            <input type="password" value={confirmation} onChange={e => { setConfirmation(e.target.value); setError(''); }} onKeyDown={e => e.key === 'Enter' && handleSubmit()} className={inputClass} placeholder="再次输入" />
+          </div>
+          <p className="text-[10px] font-bold text-amber-600">口令无法找回，忘记后只能清除浏览器数据并从备份恢复</p>
+          <div className="flex gap-2">
+            <button onClick={reset} disabled={isSaving} className={buttonClass}>取消</button>
+            <button onClick={handleSubmit} disabled={isSaving || !passphrase} style={{ backgroundColor: themeColor }} className="flex-1 py-2.5 text-white font-black text-[10px] uppercase rounded-[4px] disabled:opacity-50">
+              {isSaving ? '正在加密…' : '确定'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => setIsEditing(true)} disabled={isSaving} className={buttonClass}>{isEncrypted ? '修改口令' : '设置口令'}</button>
+          {isEncrypted && <button onClick={onLock} className={buttonClass}>立即锁定</button>}
+          {isEncrypted && <button onClick={() => confirm('移除后本机数据将以明文保存，确定吗？') && save(null)} disabled={isSaving} className={`${buttonClass} hover:text-rose-500`}>移除口令</button>}
+        </div>
+      ))}
+      {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+    </div>
+  );
+});
+
+export default SecurityPanel;
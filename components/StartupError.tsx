@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+
+interface StartupErrorProps {
+  error: unknown;
+}
+
+// 数据仓库打开失败时显示，不以空数据启动，避免覆盖浏览器中已有的数据
+const StartupError: React.FC<StartupErrorProps> = ({ error }) => {
+  useEffect(() => {
+    const loader = document.getElementById('initial-loader');
+    if (loader) {
+      loader.style.opacity = '0';
+      setTimeout(() => loader.remove(), 500);
+    }
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-slate-50">
+      <div className="bg-white rounded-[4px] w-full max-w-xs p-6 shadow-2xl space-y-4 border border-slate-100">
+        <div>
+          <h2 className="text-lg font-black uppercase tracking-tighter">无法读取数据</h2>
+          <p className="text-[10px] font-bold text-slate-400">浏览器中保存的数据未能打开，数据未被修改。请刷新重试，或检查浏览器是否禁用了本地存储。</p>
+        </div>
+        <p className="text-[10px] font-bold text-rose-500 break-all">{error instanceof Error ? error.message : String(error)}</p>
+        <button onClick={() => window.location.reload()} className="w-full py-3 bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest rounded-[4px]">
+          刷新
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StartupError;
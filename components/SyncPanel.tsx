@@ -0,0 +1,73 @@
+import React, { useState, memo } from 'react';
+import { SyncMeta, SyncSettings } from '../types';
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'error';
+  message?: string;
+  notes?: string[];
+}
+
+interface SyncPanelProps {
+  settings: SyncSettings | null;
+  meta: SyncMeta;
+  status: SyncStatus;
+  themeColor: string;
+  onConnect: (settings: SyncSettings) => void;
+  onSync: () => void;
+  onDisconnect: () => void;
+}
+
+const DEFAULT_SERVER_URL = 'http://localhost:8787';
+
+const SyncPanel: React.FC<SyncPanelProps> = memo(({ settings, meta, status, themeColor, onConnect, onSync, onDisconnect }) => {
+  const [draft, setDraft] = useState<SyncSettings>({ serverUrl: DEFAULT_SERVER_URL, token: '', deviceName: '' });
+  const pending = Object.keys(meta.dirtySince).length;
+  const syncing = status.state === 'syncing';
+  const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 text-[11px] font-mono rounded-[4px] outline-none';
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">家庭同步</label>
+      {settings ? (
+        <>
+          <div className="flex items-center gap-3 px-3 py-2 bg-slate-50 border border-slate-100 rounded-[2px]">
+            <div className="min-w-0 flex-1">
+              <div className="text-[11px] font-black text-slate-900 truncate">{settings.deviceName} · {settings.serverUrl}</div>
+              <div className="text-[10px] font-bold text-slate-400">
+                {syncing ? '正在同步…' : meta.lastSyncedAt ? `上次同步 ${new Date(meta.lastSyncedAt).toLocaleString('zh-CN', { hour12: false })}` : '尚未同步'}
+                {pending > 0 && ` · ${pending} 项待上传`}
+              </div>
+            </div>
+            <button onClick={onSync} disabled={syncing} style={{ backgroundColor: themeColor }} className="px-4 py-2 text-white font-black text-[10px] uppercase rounded-[4px] disabled:opacity-50">立即同步</button>
+          </div>
+          <button onClick={() => confirm('确定断开同步吗？本机数据保留，之后重新连接会以服务器数据为准。') && onDisconnect()} className="text-[10px] font-black text-slate-400 hover:text-rose-500">断开同步</button>
+        </>
+      ) : (
+        <>
+          <input type="text" value={draft.serverUrl} onChange={e => setDraft(prev => ({ ...prev, serverUrl: e.target.value }))} className={inputClass} placeholder={DEFAULT_SERVER_URL} />
+          <div className="grid grid-cols-2 gap-2">
+            <input type="text" value={draft.deviceName} onChange={e => setDraft(prev => ({ ...prev, deviceName: e.target.value }))} className={inputClass} placeholder="设备名称，如：小王的手机" />
+            <input type="password" value={draft.token} onChange={e => setDraft(prev => ({ ...prev, token: e.target.value }))} className={inputClass} placeholder="访问令牌（可选）" />
+          </div>
+          <button
+            onClick={() => onConnect({ serverUrl: draft.serverUrl.trim() || DEFAULT_SERVER_URL, token: draft.token.trim(), deviceName: draft.deviceName.trim() || '未命名设备' })}
+            disabled={syncing}
+            style={{ backgroundColor: themeColor }}
+            className="w-full py-3 text-white font-black text-[10px] uppercase rounded-[4px] disabled:opacity-50"
+          >
+            {syncing ? '正在连接…' : '连接同步服务器'}
+          </button>
+          <p className="text-[10px] font-bold text-slate-400">运行 npm run sync-server 启动自托管服务器；服务器为空时以本机数据初始化，否则以服务器数据替换本机的资产与预算</p>
+        </>
+      )}
+      {status.state === 'error' && <p className="text-[10px] font-bold text-rose-500">{status.message}</p>}
+      {status.notes && status.notes.length > 0 && (
+        <ul className="p-3 bg-amber-50 border border-amber-100 rounded-[4px] space-y-1 text-[10px] font-bold text-amber-700">
+          {status.notes.map((note, i) => <li key={i}>{note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+export default SyncPanel;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { Asset, ExchangeRate, Transfer } from '../types';
+import { canTransfer, getTransferToAmount, validateTransfer } from '../services/transferService';
+import { BASE_CURRENCY, formatMoney } from '../services/fxService';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assets: Asset[];
+  exchangeRates: ExchangeRate[];
+  defaultFromId?: string;
+  themeColor: string;
+  onTransfer: (transfer: Transfer) => void;
+}
+
+const TransferModal: React.FC<TransferModalProps> = ({ isOpen, onClose, assets, exchangeRates, defaultFromId, themeColor, onTransfer }) => {
+  const options = assets.filter(canTransfer);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [fee, setFee] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const from = defaultFromId || options[0]?.id || '';
+    setFromId(from);
+    setToId(options.find(a => a.id !== from)?.id || '');
+    setAmount('');
+    setFee('');
+    setNote('');
+    setError('');
+  }, [isOpen, defaultFromId]);
+
+  if (!isOpen) return null;
+
+  const from = assets.find(a => a.id === fromId);
+  const to = assets.find(a => a.id === toId);
+  const parsedAmount = parseFloat(amount) || 0;
+  const crossCurrency = from && to && (from.currency || BASE_CURRENCY) !== (to.currency || BASE_CURRENCY);
+  const toAmount = from && to ? getTransferToAmount(from, to, parsedAmount, exchangeRates) : parsedAmount;
+
+  const handleSubmit = () => {
+    const draft = { fromId, toId, amount: parsedAmount, toAmount, fee: parseFloat(fee) || undefined, note: note.trim() || undefined };
+    const message = validateTransfer(assets, draft);
+    if (message) {
+      setError(message);
+      return;
+    }
+    onTransfer({ ...draft, id: Date.now().toString(), date: new Date().toISOString() });
+    onClose();
+  };
+
+  const selectClass = 'w-full px-3 py-2.5 border border-slate-200 rounded-[4px] text-xs font-bold bg-white';
+  const renderOption = (a: Asset) => <option key={a.id} value={a.id}>{a.name} · {formatMoney(a.value, a.currency)}</option>;
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-xl" onClick={onClose}>
+      <div className="bg-white rounded-[4px] w-full max-w-sm p-6 shadow-2xl space-y-4" onClick={e => e.stopPropagation()}>
+        <div>
+          <h2 className="text-lg font-black uppercase tracking-tighter">账户转账</h2>
+          <p className="text-[10px] font-bold text-slate-400">两个账户同时更新，转入负债账户即为还款</p>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">转出</label>
+          <select value={fromId} onChange={e => { setFromId(e.target.value); if (e.target.value === toId) setToId(options.find(a => a.id !== e.target.value)?.id || ''); setError(''); }} className={selectClass}>{options.map(renderOption)}</select>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest pt-1">转入</label>
+          <select value={toId} onChange={e => { setToId(e.target.value); setError(''); }} className={selectClass}>{options.filter(a => a.id !== fromId).map(renderOption)}</select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="number" step="0.01" value={amount} onChange={e => { setAmount(e.target.value); setError(''); }} className={selectClass} placeholder={`金额${from ? ` (${from.currency || BASE_CURRENCY})` : ''}`} />
+          <input type="number" step="0.01" value={fee} onChange={e => { setFee(e.target.value); setError(''); }} className={selectClass} placeholder="手续费（可选）" />
+        </div>
+        <input type="text" value={note} onChange={e => setNote(e.target.value)} className={selectClass} placeholder="备注（可选）" />
+        {crossCurrency && parsedAmount > 0 && (
+          <p className="text-[10px] font-bold text-slate-500">按当前汇率到账 <span className="font-mono font-black text-slate-900">{formatMoney(toAmount, to.currency)}</span></p>
+        )}
+        {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        <div className="flex gap-2 pt-2">
+          <button onClick={onClose} className="flex-1 py-2.5 text-slate-400 font-black text-[10px] uppercase border border-slate-100 rounded-[4px]">取消</button>
+          <button onClick={handleSubmit} style={{ backgroundColor: themeColor }} className="flex-1 py-2.5 text-white font-black text-[10px] uppercase rounded-[4px]">确认转账</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferModal;
@@ -51,6 +51,20 @@ export const Icons = {
       <polyline points="9 22 9 12 15 12 15 22" />
     </svg>
   ),
+  Eye: ({ className = "w-6 h-6" }: { className?: string }) => (
+    <svg viewBox="0 0 24 24" className={className} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M2 12s3.5-7 10-7 10 7 10 7-3.5 7-10 7S2 12 2 12z" />
+      <circle cx="12" cy="12" r="3" />
+    </svg>
+  ),
+  EyeOff: ({ className = "w-6 h-6" }: { className?: string }) => (
+    <svg viewBox="0 0 24 24" className={className} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M9.9 4.2A10.4 10.4 0 0 1 12 4c6.5 0 10 8 10 8a17.6 17.6 0 0 1-2.2 3.2" />
+      <path d="M6.6 6.6C3.9 8.4 2 12 2 12s3.5 8 10 8a9.7 9.7 0 0 0 5.4-1.6" />
+      <path d="M14.1 14.1a3 3 0 1 1-4.2-4.2" />
+      <line x1="2" y1="2" x2="22" y2="22" />
+    </svg>
+  ),
   CategoryIcon: ({ category, className }: { category: AssetCategory, className?: string }) => {
     switch (category) {
       case AssetCategory.THIRD_PARTY:
@@ -70,3 +84,6 @@ export const Icons = {
     }
   }
 };
+
+// 隐私模式下代替金额显示的占位符
+export const MASKED_AMOUNT = '****';
@@ -1,15 +1,44 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
+import LockScreen from './components/LockScreen';
+import StartupError from './components/StartupError';
+import { FinanceRepository, openRepository } from './services/storageService';
+import { registerServiceWorker } from './services/pwaService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// 锁屏时同样需要离线可用，先于数据仓库注册
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+const renderApp = (repository: FinanceRepository) => {
+  root.render(
+    <React.StrictMode>
+      <App repository={repository} />
+    </React.StrictMode>
+  );
+};
+
+// 数据仓库读入完成后再渲染，初始加载动画会一直显示到此时；设置了启动口令时先显示锁屏，打开失败时显示错误页
+openRepository().then(result => {
+  if ('unlock' in result) {
+    root.render(
+      <React.StrictMode>
+        <LockScreen onUnlock={passphrase => result.unlock(passphrase).then(renderApp)} />
+      </React.StrictMode>
+    );
+    return;
+  }
+  renderApp(result);
+}).catch(error => {
+  console.error('Failed to open repository:', error);
+  root.render(
+    <React.StrictMode>
+      <StartupError error={error} />
+    </React.StrictMode>
+  );
+});
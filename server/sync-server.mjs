@@ -0,0 +1,202 @@
+// 家庭同步服务器：仅依赖 Node 内置模块，数据保存在本地 JSON 文件中。
+//
+//   node server/sync-server.mjs [--seed 资产备份.json]
+//
+// 环境变量：
+//   SYNC_PORT       监听端口，默认 8787
+//   SYNC_HOST       监听地址，默认 127.0.0.1（仅本机）；监听其他地址时必须设置 SYNC_TOKEN
+//   SYNC_TOKEN      访问令牌；设置后所有请求须带 Authorization: Bearer <令牌>
+//   SYNC_ORIGINS    允许跨域访问的页面来源，逗号分隔（如 http://localhost:3000）；未设置时拒绝一切跨域请求，
+//                   应用页面与服务器不同源时必须设置
+//   SYNC_DATA_FILE  数据文件，默认 ./sync-data.json
+//
+// 每条记录（账户、预算、流水）有独立的 version，写入时须提供 baseVersion，
+// 与服务器当前版本不一致即视为冲突，返回服务器上的记录由客户端合并后重试。
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const HOST = process.env.SYNC_HOST || '127.0.0.1';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ORIGINS = (process.env.SYNC_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+const DATA_FILE = path.resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const COLLECTIONS = ['assets', 'budgets', 'transactions'];
+const TOTAL_BUDGET_CATEGORY = '总计';
+
+const load = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+    return { seq: 0, records: {} };
+  }
+};
+
+const store = load();
+
+// 先写临时文件再改名，避免写到一半时进程退出导致数据文件损坏
+const save = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(store));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+const keyOf = (collection, id) => `${collection}:${id}`;
+
+const write = (collection, id, { deleted, data, updatedAt, updatedBy }) => {
+  const key = keyOf(collection, id);
+  const current = store.records[key];
+  store.seq += 1;
+  const record = {
+    collection,
+    id,
+    version: (current?.version || 0) + 1,
+    seq: store.seq,
+    updatedAt: updatedAt || Date.now(),
+    updatedBy,
+    ...(deleted ? { deleted: true } : { data })
+  };
+  store.records[key] = record;
+  return record;
+};
+
+// 备份文件（与应用导出的格式相同）拆分为账户、预算、流水记录
+const seedFromBackup = (backup, device) => {
+  if (!backup || !Array.isArray(backup.assets) || !Array.isArray(backup.budgets)) {
+    throw Object.assign(new Error('备份文件缺少 assets 或 budgets'), { status: 400 });
+  }
+  const written = [];
+  backup.assets.forEach(asset => written.push(write('assets', asset.id, { data: asset, updatedBy: device })));
+  backup.budgets.forEach((budget, order) => {
+    const { transactions, ...rest } = budget;
+    const id = budget.id || `budget-${Date.now().toString(36)}-${order}`;
+    written.push(write('budgets', id, { data: { ...rest, id, order }, updatedBy: device }));
+    if (budget.category === TOTAL_BUDGET_CATEGORY) return;
+    (transactions || []).forEach(t => written.push(write('transactions', t.id, { data: { ...t, budgetId: id }, updatedBy: device })));
+  });
+  save();
+  return written;
+};
+
+const push = ({ device, changes }) => {
+  if (!Array.isArray(changes)) throw Object.assign(new Error('changes 不是数组'), { status: 400 });
+  const accepted = [];
+  const conflicts = [];
+  changes.forEach(change => {
+    if (!COLLECTIONS.includes(change.collection) || typeof change.id !== 'string') return;
+    const current = store.records[keyOf(change.collection, change.id)];
+    if ((current?.version || 0) !== (change.baseVersion || 0)) {
+      // 客户端认为存在、服务器上却没有的记录按已删除返回
+      conflicts.push(current || { collection: change.collection, id: change.id, version: 0, seq: 0, updatedAt: 0, deleted: true });
+      return;
+    }
+    const record = write(change.collection, change.id, { ...change, updatedBy: device });
+    accepted.push({ collection: record.collection, id: record.id, version: record.version });
+  });
+  if (accepted.length > 0) save();
+  return { seq: store.seq, accepted, conflicts };
+};
+
+// 比较摘要而非原文，长度不同也不会提前返回，避免按响应时间猜出令牌
+const digest = value => createHash('sha256').update(value).digest();
+const isAuthorized = header => !TOKEN || timingSafeEqual(digest(header || ''), digest(`Bearer ${TOKEN}`));
+
+// 只向 SYNC_ORIGINS 中列出的来源返回跨域头；否则用户打开的任意网页都能经本机读写财务数据
+const corsOrigin = origin => origin && ORIGINS.includes(origin) ? origin : undefined;
+
+const isSameOrigin = (origin, host) => {
+  try {
+    return !!host && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+};
+
+// 不带 Origin 的请求来自命令行等非浏览器客户端；浏览器请求须同源或来源在 SYNC_ORIGINS 中
+const isAllowedOrigin = req => !req.headers.origin || !!corsOrigin(req.headers.origin) || isSameOrigin(req.headers.origin, req.headers.host);
+
+const send = (res, status, body, origin) => {
+  const allowOrigin = corsOrigin(origin);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    Vary: 'Origin',
+    ...(allowOrigin ? { 'Access-Control-Allow-Origin': allowOrigin } : {}),
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Sync-Device',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('请求体过大'), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(Object.assign(new Error('请求体不是有效的 JSON'), { status: 400 }));
+    }
+  });
+  req.on('error', reject);
+});
+
+const handle = async (req, res) => {
+  const reply = (status, body) => send(res, status, body, req.headers.origin);
+  if (!isAllowedOrigin(req)) return reply(403, { error: '不允许的来源，请在 SYNC_ORIGINS 中加入应用页面的地址' });
+  if (req.method === 'OPTIONS') return reply(204);
+  if (!isAuthorized(req.headers.authorization)) return reply(401, { error: '访问令牌无效' });
+  const url = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/sync/status') {
+    return reply(200, { seq: store.seq, records: Object.keys(store.records).length });
+  }
+  if (req.method === 'GET' && url.pathname === '/sync/changes') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    return reply(200, { seq: store.seq, records: Object.values(store.records).filter(r => r.seq > since) });
+  }
+  if (req.method === 'POST' && url.pathname === '/sync/push') {
+    return reply(200, push(await readBody(req)));
+  }
+  if (req.method === 'POST' && url.pathname === '/sync/seed') {
+    if (Object.keys(store.records).length > 0) return reply(409, { error: '服务器已有数据，不能重复初始化' });
+    const written = seedFromBackup(await readBody(req), decodeURIComponent(req.headers['x-sync-device'] || ''));
+    return reply(200, { seq: store.seq, records: written.map(r => ({ collection: r.collection, id: r.id, version: r.version })) });
+  }
+  reply(404, { error: '未知的接口' });
+};
+
+// 数据不加密，没有令牌时只允许本机访问
+if (!TOKEN && !LOOPBACK_HOSTS.includes(HOST)) {
+  console.error(`监听 ${HOST} 时必须设置 SYNC_TOKEN`);
+  process.exit(1);
+}
+
+const seedIndex = process.argv.indexOf('--seed');
+if (seedIndex > 0) {
+  if (Object.keys(store.records).length > 0) {
+    console.error(`${DATA_FILE} 已有数据，不能重复初始化`);
+    process.exit(1);
+  }
+  const written = seedFromBackup(JSON.parse(fs.readFileSync(process.argv[seedIndex + 1], 'utf8')), 'seed');
+  console.log(`已从备份导入 ${written.length} 条记录`);
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch(e => send(res, e.status || 500, { error: e.message }, req.headers.origin));
+}).listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT} (data: ${DATA_FILE}${TOKEN ? ', token required' : ''})`);
+});
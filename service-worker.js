@@ -0,0 +1,115 @@
+// 离线缓存与后台提醒。构建时由 vite.config.ts 中的 serviceWorker 插件注入版本号与预缓存列表，输出为 dist/sw.js。
+
+const BUILD_VERSION = '__BUILD_VERSION__';
+// 同源的构建产物与 public 目录文件，路径相对于 sw.js
+const PRECACHE_URLS = [/* __PRECACHE_URLS__ */];
+// index.html 中引用的 CDN 资源（Tailwind、字体样式表）
+const CDN_URLS = [/* __CDN_URLS__ */];
+// 字体样式表引用的字体文件来自该域名，首次使用时缓存
+const RUNTIME_HOSTS = [...new Set(CDN_URLS.map(url => new URL(url).host)), 'fonts.gstatic.com'];
+
+const CACHE_NAME = `finance-${BUILD_VERSION}`;
+const RUNTIME_CACHE = 'finance-runtime';
+const REMINDER_CACHE = 'finance-reminders';
+const REMINDER_KEY = 'reminders.json';
+const REMINDER_TAG = 'payment-reminders';
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(PRECACHE_URLS);
+    // 跨域资源没有 CORS 头，按 no-cors 缓存；个别失败不影响安装，联网后再补
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.allSettled(CDN_URLS.map(async url => {
+      const request = new Request(url, { mode: 'no-cors' });
+      await runtime.put(request, await fetch(request));
+    }));
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('finance-') && key !== CACHE_NAME && key !== RUNTIME_CACHE && key !== REMINDER_CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// 新版本安装后等待页面确认再接管，避免正在记账时页面被替换
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+  if (event.data?.type === 'REMINDERS') event.waitUntil(saveReminders(event.data.reminders).then(showDueReminders));
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cacheName && (response.ok || response.type === 'opaque')) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // 页面导航一律返回缓存的应用外壳，信号差时不必等网络超时；新版本通过 service worker 更新
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(new URL('index.html', self.registration.scope).href).then(cached => cached || fetch(request)));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    // 只处理预缓存过的文件，同步服务器等其他同源请求直接走网络
+    event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+    return;
+  }
+  if (RUNTIME_HOSTS.includes(url.host)) event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+});
+
+// ---- 还款提醒 ----
+// 页面把尚未提醒的还款发来保存，每条在 remindOn 当天或之后提醒一次；
+// 支持后台定期同步时，应用未打开也会检查
+
+const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const loadReminders = async () => {
+  const response = await (await caches.open(REMINDER_CACHE)).match(REMINDER_KEY);
+  return response ? response.json() : [];
+};
+
+const storeReminders = async reminders => {
+  await (await caches.open(REMINDER_CACHE)).put(REMINDER_KEY, new Response(JSON.stringify(reminders), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+// 以页面发来的列表为准，已提醒过的保留标记
+const saveReminders = async reminders => {
+  const shown = new Set((await loadReminders()).filter(r => r.shown).map(r => r.id));
+  await storeReminders(reminders.map(r => ({ ...r, shown: shown.has(r.id) })));
+};
+
+const showDueReminders = async () => {
+  const reminders = await loadReminders();
+  const due = reminders.filter(r => !r.shown && r.remindOn <= today());
+  if (due.length === 0) return;
+  await Promise.all(due.map(r => self.registration.showNotification(r.title, { body: r.body, tag: r.id, icon: 'icons/icon-192.png' })));
+  await storeReminders(reminders.map(r => due.includes(r) ? { ...r, shown: true } : r));
+};
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === REMINDER_TAG) event.waitUntil(showDueReminders());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(self.registration.scope);
+  })());
+});
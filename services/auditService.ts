@@ -0,0 +1,165 @@
+import { Asset, AuditChange, AuditEntry, AuditSource, Budget, FinanceState, Transaction, Transfer } from "../types";
+import { BASE_CURRENCY, currencySymbol } from "./fxService";
+
+export const MAX_AUDIT_ENTRIES = 500;
+export const MAX_UNDO_STEPS = 50;
+// 同一对象的连续修改（如逐字输入）在该时间内合并为一条记录
+export const MERGE_WINDOW_MS = 3000;
+// 单条记录最多保存的明细数，批量操作（清除数据、恢复备份）超出部分只计数
+const MAX_CHANGES = 100;
+
+export const SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: '手动操作',
+  recurring: '周期规则',
+  import: '文件导入',
+  restore: '备份恢复',
+  system: '自动结算',
+  sync: '家庭同步',
+  undo: '撤销',
+  redo: '重做'
+};
+
+/**
+ * 一次可撤销的修改：before / after 只包含发生变化的数据集合。
+ */
+export interface UndoStep {
+  id: string;
+  action: string;
+  source: AuditSource;
+  before: Partial<FinanceState>;
+  after: Partial<FinanceState>;
+  mergeKey?: string;
+  at: number;
+}
+
+const money = (value: number | undefined, currency = BASE_CURRENCY) =>
+  value === undefined ? undefined : `${value < 0 ? '-' : ''}${currencySymbol(currency)}${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const budgetName = (b: Budget) => b.subCategory ? `${b.category} / ${b.subCategory}` : b.category;
+const transactionText = (t: Transaction) => `${money(t.amount)}${t.note ? ` ${t.note}` : ''} (${t.date.slice(0, 10)})`;
+
+const diffAssets = (before: Asset[], after: Asset[]): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  const previous = new Map(before.map(a => [a.id, a]));
+  after.forEach(a => {
+    const old = previous.get(a.id);
+    previous.delete(a.id);
+    if (!old) {
+      changes.push({ target: a.name, field: '新增账户', after: money(a.value, a.currency) });
+      return;
+    }
+    if (old === a) return;
+    if (old.value !== a.value) changes.push({ target: a.name, field: '余额', before: money(old.value, old.currency), after: money(a.value, a.currency) });
+    if (old.name !== a.name) changes.push({ target: a.name, field: '名称', before: old.name, after: a.name });
+    if (old.category !== a.category) changes.push({ target: a.name, field: '分类', before: old.category, after: a.category });
+    if (old.currency !== a.currency) changes.push({ target: a.name, field: '币种', before: old.currency, after: a.currency });
+    if (old.targetValue !== a.targetValue) changes.push({ target: a.name, field: '目标金额', before: money(old.targetValue, old.currency), after: money(a.targetValue, a.currency) });
+    if (old.history.length !== a.history.length && old.value === a.value) {
+      changes.push({ target: a.name, field: '历史数据', before: `${old.history.length} 个点`, after: `${a.history.length} 个点` });
+    }
+    if (JSON.stringify(old.holding) !== JSON.stringify(a.holding)) changes.push({ target: a.name, field: '持仓明细', after: '已修改' });
+    if (JSON.stringify(old.loan) !== JSON.stringify(a.loan)) changes.push({ target: a.name, field: '贷款信息', after: '已修改' });
+  });
+  previous.forEach(a => changes.push({ target: a.name, field: '删除账户', before: money(a.value, a.currency) }));
+  return changes;
+};
+
+const diffTransactions = (name: string, before: Transaction[] = [], after: Transaction[] = []): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  const previous = new Map(before.map(t => [t.id, t]));
+  after.forEach(t => {
+    const old = previous.get(t.id);
+    previous.delete(t.id);
+    if (!old) changes.push({ target: name, field: '新增流水', after: transactionText(t) });
+    else if (old.amount !== t.amount || old.note !== t.note || old.date !== t.date) {
+      changes.push({ target: name, field: '修改流水', before: transactionText(old), after: transactionText(t) });
+    }
+  });
+  previous.forEach(t => changes.push({ target: name, field: '删除流水', before: transactionText(t) }));
+  return changes;
+};
+
+const diffBudget = (old: Budget, b: Budget): AuditChange[] => {
+  const name = budgetName(b);
+  const changes: AuditChange[] = [];
+  if (budgetName(old) !== name) changes.push({ target: name, field: '名称', before: budgetName(old), after: name });
+  if (old.monthlyAmount !== b.monthlyAmount) changes.push({ target: name, field: '预算额度', before: money(old.monthlyAmount), after: money(b.monthlyAmount) });
+  if (old.rollover !== b.rollover) changes.push({ target: name, field: '结转方式', before: old.rollover || 'full', after: b.rollover || 'full' });
+  if (old.carryOver !== b.carryOver) changes.push({ target: name, field: '结转金额', before: money(old.carryOver), after: money(b.carryOver) });
+  // 流水有明细时逐笔记录，否则记录本月支出的变化
+  const transactionChanges = diffTransactions(name, old.transactions, b.transactions);
+  if (transactionChanges.length > 0) changes.push(...transactionChanges);
+  else if (old.spentThisMonth !== b.spentThisMonth) changes.push({ target: name, field: '本月支出', before: money(old.spentThisMonth), after: money(b.spentThisMonth) });
+  return changes;
+};
+
+// 预算没有 id：条数不变时按位置比较，增删时按名称匹配
+const diffBudgets = (before: Budget[], after: Budget[]): AuditChange[] => {
+  if (before.length === after.length) {
+    return after.flatMap((b, i) => before[i] === b ? [] : diffBudget(before[i], b));
+  }
+  const changes: AuditChange[] = [];
+  const remaining = [...before];
+  after.forEach(b => {
+    const same = remaining.indexOf(b);
+    const index = same >= 0 ? same : remaining.findIndex(old => budgetName(old) === budgetName(b));
+    if (index < 0) {
+      changes.push({ target: budgetName(b), field: '新增预算', after: money(b.monthlyAmount) });
+      return;
+    }
+    const [old] = remaining.splice(index, 1);
+    if (old !== b) changes.push(...diffBudget(old, b));
+  });
+  remaining.forEach(b => changes.push({ target: budgetName(b), field: '删除预算', before: money(b.monthlyAmount) }));
+  return changes;
+};
+
+const diffList = (target: string, before: string[], after: string[]): AuditChange[] => [
+  ...after.filter(c => !before.includes(c)).map(c => ({ target, field: '新增', after: c })),
+  ...before.filter(c => !after.includes(c)).map(c => ({ target, field: '删除', before: c }))
+];
+
+const diffTransfers = (before: Transfer[], after: Transfer[], assets: Asset[]): AuditChange[] => {
+  const nameOf = (id: string) => assets.find(a => a.id === id)?.name || '已删除账户';
+  const text = (t: Transfer) => `${money(t.amount)}${t.fee ? `（手续费 ${money(t.fee)}）` : ''}`;
+  return [
+    ...after.filter(t => !before.some(b => b.id === t.id)).map(t => ({ target: `${nameOf(t.fromId)} → ${nameOf(t.toId)}`, field: '转账', after: text(t) })),
+    ...before.filter(t => !after.some(a => a.id === t.id)).map(t => ({ target: `${nameOf(t.fromId)} → ${nameOf(t.toId)}`, field: '撤回转账', before: text(t) }))
+  ];
+};
+
+/**
+ * 比较修改前后的数据，生成可读的变更明细；assets 用于转账记录中的账户名称。
+ */
+export const diffFinanceState = (before: Partial<FinanceState>, after: Partial<FinanceState>, assets: Asset[]): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  if (before.assets && after.assets) changes.push(...diffAssets(before.assets, after.assets));
+  if (before.budgets && after.budgets) changes.push(...diffBudgets(before.budgets, after.budgets));
+  if (before.assetCategoryList && after.assetCategoryList) changes.push(...diffList('资产分类', before.assetCategoryList, after.assetCategoryList));
+  if (before.budgetCategoryList && after.budgetCategoryList) changes.push(...diffList('预算分类', before.budgetCategoryList, after.budgetCategoryList));
+  if (before.transfers && after.transfers) changes.push(...diffTransfers(before.transfers, after.transfers, assets));
+  if (changes.length <= MAX_CHANGES) return changes;
+  return [...changes.slice(0, MAX_CHANGES), { target: '其他', field: `另有 ${changes.length - MAX_CHANGES} 项变更` }];
+};
+
+/**
+ * 与上一步合并：保留较早的 before，取较新的 after。
+ */
+export const mergeUndoSteps = (previous: UndoStep, next: UndoStep): UndoStep => ({
+  ...previous,
+  before: { ...next.before, ...previous.before },
+  after: { ...previous.after, ...next.after },
+  at: next.at
+});
+
+export const createAuditEntry = (step: Pick<UndoStep, 'id' | 'action' | 'source'>, changes: AuditChange[], timestamp = new Date()): AuditEntry => ({
+  id: step.id,
+  timestamp: timestamp.toISOString(),
+  action: step.action,
+  source: step.source,
+  changes
+});
+
+// 新记录置顶；同 id 的记录（合并后的修改）被替换
+export const appendAuditEntry = (log: AuditEntry[], entry: AuditEntry): AuditEntry[] =>
+  [entry, ...log.filter(e => e.id !== entry.id)].slice(0, MAX_AUDIT_ENTRIES);
@@ -0,0 +1,234 @@
+import { Asset, BackupData, Budget, Transaction } from "../types";
+import { sumTransactions } from "./ledgerService";
+import { BASE_CURRENCY, upsertRates } from "./fxService";
+
+export const BACKUP_VERSION = 2;
+
+export type BackupRestoreMode = 'replace' | 'merge';
+
+export type BackupParseResult =
+  | { ok: true; data: BackupData; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+type BackupState = Omit<BackupData, 'version' | 'exportedAt'>;
+
+export const createBackup = (state: BackupState): BackupData => ({
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...state
+});
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(x => typeof x === 'string');
+
+// 各版本升级到下一版本的迁移，键为源版本号
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1：早期 "生成并复制备份" 的文本，没有 version 字段，预算也可能缺少 carryOver
+  1: raw => ({
+    ...raw,
+    version: 2,
+    exportedAt: raw.exportedAt || new Date().toISOString(),
+    budgets: Array.isArray(raw.budgets)
+      ? raw.budgets.map((b: unknown) => isObject(b) ? { carryOver: 0, ...b } : b)
+      : raw.budgets
+  })
+};
+
+const validateTransaction = (t: unknown, path: string, errors: string[]) => {
+  if (!isObject(t)) { errors.push(`${path} 不是对象`); return; }
+  if (typeof t.id !== 'string') errors.push(`${path}.id 缺失`);
+  if (!isFiniteNumber(t.amount)) errors.push(`${path}.amount 不是有效数字`);
+  if (typeof t.date !== 'string') errors.push(`${path}.date 缺失`);
+};
+
+const validateAsset = (a: unknown, path: string, errors: string[]) => {
+  if (!isObject(a)) { errors.push(`${path} 不是对象`); return; }
+  if (typeof a.id !== 'string' || !a.id) errors.push(`${path}.id 缺失`);
+  if (typeof a.name !== 'string') errors.push(`${path}.name 缺失`);
+  if (typeof a.category !== 'string') errors.push(`${path}.category 缺失`);
+  if (!isFiniteNumber(a.value)) errors.push(`${path}.value 不是有效数字`);
+  if (!Array.isArray(a.history)) {
+    errors.push(`${path}.history 不是数组`);
+  } else {
+    a.history.forEach((h: unknown, i: number) => {
+      if (!isObject(h) || typeof h.date !== 'string' || !isFiniteNumber(h.value)) errors.push(`${path}.history[${i}] 格式错误`);
+    });
+  }
+  if (a.holding !== undefined) {
+    if (!isObject(a.holding) || !isFiniteNumber(a.holding.nav) || !Array.isArray(a.holding.navHistory) || !Array.isArray(a.holding.events)) {
+      errors.push(`${path}.holding 格式错误`);
+    }
+  }
+  if (a.loan !== undefined) {
+    if (!isObject(a.loan) || !isFiniteNumber(a.loan.principal) || !isFiniteNumber(a.loan.annualRate) || !Array.isArray(a.loan.payments)) {
+      errors.push(`${path}.loan 格式错误`);
+    }
+  }
+  if (a.creditCard !== undefined) {
+    if (!isObject(a.creditCard) || !isFiniteNumber(a.creditCard.statementDay) || !isFiniteNumber(a.creditCard.dueDay)) {
+      errors.push(`${path}.creditCard 格式错误`);
+    }
+  }
+};
+
+const validateBudget = (b: unknown, path: string, errors: string[]) => {
+  if (!isObject(b)) { errors.push(`${path} 不是对象`); return; }
+  if (typeof b.category !== 'string') errors.push(`${path}.category 缺失`);
+  ['monthlyAmount', 'spentThisMonth', 'carryOver'].forEach(key => {
+    if (!isFiniteNumber(b[key])) errors.push(`${path}.${key} 不是有效数字`);
+  });
+  if (b.transactions !== undefined) {
+    if (!Array.isArray(b.transactions)) errors.push(`${path}.transactions 不是数组`);
+    else b.transactions.forEach((t: unknown, i: number) => validateTransaction(t, `${path}.transactions[${i}]`, errors));
+  }
+  if (b.history !== undefined) {
+    if (!Array.isArray(b.history)) errors.push(`${path}.history 不是数组`);
+    else b.history.forEach((r: unknown, i: number) => {
+      if (!isObject(r) || typeof r.month !== 'string' || !Array.isArray(r.transactions)) errors.push(`${path}.history[${i}] 格式错误`);
+    });
+  }
+};
+
+const validate = (raw: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  if (!Array.isArray(raw.assets)) errors.push('assets 不是数组');
+  else raw.assets.forEach((a: unknown, i: number) => validateAsset(a, `assets[${i}]`, errors));
+  if (!Array.isArray(raw.budgets)) errors.push('budgets 不是数组');
+  else raw.budgets.forEach((b: unknown, i: number) => validateBudget(b, `budgets[${i}]`, errors));
+  if (!isStringArray(raw.budgetCategoryList)) errors.push('budgetCategoryList 不是字符串数组');
+  if (!isStringArray(raw.assetCategoryList)) errors.push('assetCategoryList 不是字符串数组');
+  if (typeof raw.themeColor !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(raw.themeColor)) errors.push('themeColor 不是有效颜色');
+  if (!isObject(raw.customCategoryColors) || !Object.values(raw.customCategoryColors).every(v => typeof v === 'string')) {
+    errors.push('customCategoryColors 格式错误');
+  }
+  if (raw.exchangeRates !== undefined) {
+    if (!Array.isArray(raw.exchangeRates)) errors.push('exchangeRates 不是数组');
+    else raw.exchangeRates.forEach((r: unknown, i: number) => {
+      if (!isObject(r) || typeof r.currency !== 'string' || typeof r.date !== 'string' || !isFiniteNumber(r.rate)) errors.push(`exchangeRates[${i}] 格式错误`);
+    });
+  }
+  if (raw.baseCurrency !== undefined && typeof raw.baseCurrency !== 'string') errors.push('baseCurrency 不是字符串');
+  if (raw.savingsGoals !== undefined) {
+    if (!Array.isArray(raw.savingsGoals)) errors.push('savingsGoals 不是数组');
+    else raw.savingsGoals.forEach((g: unknown, i: number) => {
+      if (!isObject(g) || typeof g.id !== 'string' || !isFiniteNumber(g.targetAmount) || !isStringArray(g.assetIds)) errors.push(`savingsGoals[${i}] 格式错误`);
+    });
+  }
+  if (raw.recurringRules !== undefined) {
+    if (!Array.isArray(raw.recurringRules)) errors.push('recurringRules 不是数组');
+    else raw.recurringRules.forEach((r: unknown, i: number) => {
+      if (!isObject(r) || typeof r.id !== 'string' || !isFiniteNumber(r.amount) || typeof r.frequency !== 'string' || typeof r.startDate !== 'string') errors.push(`recurringRules[${i}] 格式错误`);
+    });
+  }
+  if (raw.transfers !== undefined) {
+    if (!Array.isArray(raw.transfers)) errors.push('transfers 不是数组');
+    else raw.transfers.forEach((t: unknown, i: number) => {
+      if (!isObject(t) || typeof t.id !== 'string' || typeof t.fromId !== 'string' || typeof t.toId !== 'string' || !isFiniteNumber(t.amount) || !isFiniteNumber(t.toAmount)) errors.push(`transfers[${i}] 格式错误`);
+    });
+  }
+  if (raw.chartAnnotations !== undefined) {
+    if (!Array.isArray(raw.chartAnnotations)) errors.push('chartAnnotations 不是数组');
+    else raw.chartAnnotations.forEach((a: unknown, i: number) => {
+      if (!isObject(a) || typeof a.id !== 'string' || typeof a.date !== 'string' || typeof a.label !== 'string') errors.push(`chartAnnotations[${i}] 格式错误`);
+    });
+  }
+  return errors;
+};
+
+/**
+ * 解析备份文本：依次执行版本迁移，再逐字段校验，返回全部错误而不是遇到第一个就中止。
+ */
+export const parseBackup = (text: string): BackupParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['不是有效的 JSON 文件'] };
+  }
+  if (!isObject(raw)) return { ok: false, errors: ['备份内容不是对象'] };
+
+  const migratedFrom = isFiniteNumber(raw.version) ? raw.version : 1;
+  if (migratedFrom > BACKUP_VERSION) {
+    return { ok: false, errors: [`备份版本 v${migratedFrom} 高于当前支持的 v${BACKUP_VERSION}，请先升级应用`] };
+  }
+  let data = raw;
+  for (let v = migratedFrom; v < BACKUP_VERSION; v++) data = MIGRATIONS[v](data);
+
+  const errors = validate(data);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data: data as unknown as BackupData, migratedFrom };
+};
+
+const budgetKey = (b: Budget) => `${b.category}/${b.subCategory || ''}`;
+
+const mergeTransactions = (current: Transaction[] = [], incoming: Transaction[] = []) => {
+  const ids = new Set(current.map(t => t.id));
+  return [...current, ...incoming.filter(t => !ids.has(t.id))];
+};
+
+/**
+ * 合并恢复：资产按 id 覆盖或追加；预算按 "分类/项目" 匹配，流水按 id 取并集；分类与颜色取并集，保留当前主题色。
+ */
+export const mergeBackup = (current: BackupState, incoming: BackupData): BackupState => {
+  const incomingAssets = new Map<string, Asset>(incoming.assets.map(a => [a.id, a]));
+  const assets = [
+    ...current.assets.map(a => incomingAssets.get(a.id) || a),
+    ...incoming.assets.filter(a => !current.assets.some(c => c.id === a.id))
+  ];
+
+  const incomingBudgets = new Map<string, Budget>(incoming.budgets.map(b => [budgetKey(b), b]));
+  const budgets = [
+    ...current.budgets.map(b => {
+      const match = incomingBudgets.get(budgetKey(b));
+      if (!match) return b;
+      const transactions = mergeTransactions(b.transactions, match.transactions);
+      return { ...b, ...match, transactions, spentThisMonth: sumTransactions(transactions) };
+    }),
+    ...incoming.budgets.filter(b => !current.budgets.some(c => budgetKey(c) === budgetKey(b)))
+  ];
+
+  return {
+    assets,
+    budgets,
+    budgetCategoryList: Array.from(new Set([...current.budgetCategoryList, ...incoming.budgetCategoryList])),
+    assetCategoryList: Array.from(new Set([...current.assetCategoryList, ...incoming.assetCategoryList])),
+    themeColor: current.themeColor,
+    customCategoryColors: { ...incoming.customCategoryColors, ...current.customCategoryColors },
+    exchangeRates: upsertRates(incoming.exchangeRates || [], current.exchangeRates || []),
+    baseCurrency: current.baseCurrency,
+    savingsGoals: [
+      ...(current.savingsGoals || []),
+      ...(incoming.savingsGoals || []).filter(g => !current.savingsGoals?.some(c => c.id === g.id))
+    ],
+    recurringRules: [
+      ...(current.recurringRules || []),
+      ...(incoming.recurringRules || []).filter(r => !current.recurringRules?.some(c => c.id === r.id))
+    ],
+    transfers: [
+      ...(current.transfers || []),
+      ...(incoming.transfers || []).filter(t => !current.transfers?.some(c => c.id === t.id))
+    ],
+    chartAnnotations: [
+      ...(current.chartAnnotations || []),
+      ...(incoming.chartAnnotations || []).filter(a => !current.chartAnnotations?.some(c => c.id === a.id))
+    ]
+  };
+};
+
+/**
+ * 替换恢复：完全以备份为准，旧版本备份中没有的数据（汇率、储蓄目标、周期规则等）清空为默认值，不保留当前数据。
+ */
+export const replaceBackup = (incoming: BackupData): BackupState => ({
+  assets: incoming.assets,
+  budgets: incoming.budgets,
+  budgetCategoryList: incoming.budgetCategoryList,
+  assetCategoryList: incoming.assetCategoryList,
+  themeColor: incoming.themeColor,
+  customCategoryColors: incoming.customCategoryColors,
+  exchangeRates: incoming.exchangeRates || [],
+  baseCurrency: incoming.baseCurrency || BASE_CURRENCY,
+  savingsGoals: incoming.savingsGoals || [],
+  recurringRules: incoming.recurringRules || [],
+  transfers: incoming.transfers || [],
+  chartAnnotations: incoming.chartAnnotations || []
+});
@@ -0,0 +1,135 @@
+import { Budget, BudgetMonthRecord } from "../types";
+
+export const TOTAL_BUDGET_CATEGORY = '总计';
+
+export const getMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const nextMonthKey = (month: string): string => {
+  const [y, m] = month.split('-').map(Number);
+  return getMonthKey(new Date(y, m, 1));
+};
+
+// 计算下月结转额：可用额度 = 限额 + 上月结转，剩余部分按结转方式处理
+export const computeCarryOver = (budget: Budget): number => {
+  const remaining = budget.monthlyAmount + budget.carryOver - budget.spentThisMonth;
+  switch (budget.rollover || 'full') {
+    case 'surplus': return Math.max(0, remaining);
+    case 'none': return 0;
+    default: return remaining;
+  }
+};
+
+const closeMonth = (budget: Budget, month: string): Budget => {
+  const record: BudgetMonthRecord = {
+    month,
+    monthlyAmount: budget.monthlyAmount,
+    spent: budget.spentThisMonth,
+    carryOver: budget.carryOver,
+    transactions: budget.transactions || []
+  };
+  return {
+    ...budget,
+    carryOver: computeCarryOver(budget),
+    spentThisMonth: 0,
+    transactions: [],
+    history: [...(budget.history || []), record]
+  };
+};
+
+// 总计行的限额/支出/结转始终由各子预算汇总得出
+export const syncTotalBudget = (budgets: Budget[]): Budget[] => {
+  const totalIdx = budgets.findIndex(b => b.category === TOTAL_BUDGET_CATEGORY);
+  const categoriesOnly = budgets.filter(b => b.category !== TOTAL_BUDGET_CATEGORY);
+  if (totalIdx === -1 || categoriesOnly.length === 0) return budgets;
+  const next = [...budgets];
+  next[totalIdx] = {
+    ...next[totalIdx],
+    monthlyAmount: categoriesOnly.reduce((sum, b) => sum + b.monthlyAmount, 0),
+    spentThisMonth: categoriesOnly.reduce((sum, b) => sum + b.spentThisMonth, 0),
+    carryOver: categoriesOnly.reduce((sum, b) => sum + b.carryOver, 0)
+  };
+  return next;
+};
+
+/**
+ * 从 fromMonth 结算到 toMonth：逐月归档并结转，中间未打开应用的月份按零支出结算。
+ */
+export const rolloverBudgets = (budgets: Budget[], fromMonth: string, toMonth: string): Budget[] => {
+  if (fromMonth >= toMonth) return budgets;
+  let result = budgets;
+  for (let month = fromMonth; month < toMonth; month = nextMonthKey(month)) {
+    const closing = month;
+    result = syncTotalBudget(result.map(b => closeMonth(b, closing)));
+  }
+  return result;
+};
+
+export interface BudgetMonthSnapshot {
+  category: string;
+  subCategory?: string;
+  color?: string;
+  monthlyAmount: number;
+  spent: number;
+  carryOver: number;
+  overspend: number;
+  transactions: BudgetMonthRecord['transactions'];
+}
+
+const toSnapshot = (budget: Budget, record: BudgetMonthRecord): BudgetMonthSnapshot => ({
+  category: budget.category,
+  subCategory: budget.subCategory,
+  color: budget.color,
+  monthlyAmount: record.monthlyAmount,
+  spent: record.spent,
+  carryOver: record.carryOver,
+  overspend: Math.max(0, record.spent - record.monthlyAmount - record.carryOver),
+  transactions: record.transactions
+});
+
+// 取某预算在指定月份的记录：已归档月份取 history，当月取实时数据
+const getMonthRecord = (budget: Budget, month: string, currentMonth: string): BudgetMonthRecord | undefined => {
+  if (month === currentMonth) {
+    return {
+      month,
+      monthlyAmount: budget.monthlyAmount,
+      spent: budget.spentThisMonth,
+      carryOver: budget.carryOver,
+      transactions: budget.transactions || []
+    };
+  }
+  return budget.history?.find(r => r.month === month);
+};
+
+export const getBudgetMonths = (budgets: Budget[], currentMonth: string): string[] => {
+  const months = new Set<string>([currentMonth]);
+  budgets.forEach(b => b.history?.forEach(r => months.add(r.month)));
+  return Array.from(months).sort().reverse();
+};
+
+export const getBudgetMonthSnapshots = (budgets: Budget[], month: string, currentMonth: string): BudgetMonthSnapshot[] =>
+  budgets
+    .filter(b => b.category !== TOTAL_BUDGET_CATEGORY)
+    .flatMap(b => {
+      const record = getMonthRecord(b, month, currentMonth);
+      return record ? [toSnapshot(b, record)] : [];
+    });
+
+export const getRecentMonths = (currentMonth: string, count: number): string[] => {
+  const [y, m] = currentMonth.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => getMonthKey(new Date(y, m - 1 - (count - 1 - i), 1)));
+};
+
+/**
+ * 某一预算分类（或其下某个子项目）在最近若干个月的限额与支出；不指定子项目时汇总整个分类。
+ */
+export const getCategoryTrend = (budgets: Budget[], category: string, currentMonth: string, subCategory?: string, count = 12) =>
+  getRecentMonths(currentMonth, count).map(month => {
+    const snapshots = getBudgetMonthSnapshots(budgets, month, currentMonth)
+      .filter(s => s.category === category && (subCategory === undefined || s.subCategory === subCategory));
+    return {
+      month,
+      limit: snapshots.reduce((sum, s) => sum + s.monthlyAmount, 0),
+      spent: snapshots.reduce((sum, s) => sum + s.spent, 0)
+    };
+  });
@@ -0,0 +1,120 @@
+import { Asset, CreditCard } from "../types";
+import { parseHistoryDate } from "./historyService";
+import { valueAt } from "./snapshotService";
+import { nextDuePayment } from "./loanService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_REMINDER_DAYS = 3;
+
+export interface CreditCardStatus {
+  statementDate: Date; // 最近一次账单日
+  nextStatementDate: Date;
+  dueDate: Date; // 最近一期账单的还款日
+  daysUntilDue: number;
+  billed: number; // 本期账单待还
+  unbilled: number; // 账单日后新增，计入下期
+  available: number;
+}
+
+export interface UpcomingPayment {
+  assetId: string;
+  name: string;
+  kind: 'credit' | 'loan';
+  dueDate: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  daysLeft: number;
+  isReminder: boolean; // 已进入提醒期
+  remindOn: string; // 进入提醒期的日期 YYYY-MM-DD
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDay = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// 指定月份的某日，遇到小月取月末
+const dayInMonth = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+const daysBetween = (from: Date, to: Date) =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/**
+ * 计算信用卡当前账期：账单日当天出账；还款日不晚于账单日时落在次月。
+ */
+export const getCreditCardStatus = (asset: Asset, card: CreditCard, now = new Date()): CreditCardStatus => {
+  const today = startOfDay(now);
+  let statementDate = dayInMonth(today.getFullYear(), today.getMonth(), card.statementDay);
+  if (statementDate > today) statementDate = dayInMonth(today.getFullYear(), today.getMonth() - 1, card.statementDay);
+  const nextStatementDate = dayInMonth(statementDate.getFullYear(), statementDate.getMonth() + 1, card.statementDay);
+  const dueMonthOffset = card.dueDay > card.statementDay ? 0 : 1;
+  const dueDate = dayInMonth(statementDate.getFullYear(), statementDate.getMonth() + dueMonthOffset, card.dueDay);
+
+  // 出账时的欠款为本期账单；之后的还款先冲抵本期（取出账后出现过的最低余额），新增消费计入下期
+  const statementEnd = statementDate.getTime() + DAY_MS - 1;
+  const statementBalance = valueAt(asset.history, statementEnd) ?? 0;
+  const lowestSince = asset.history
+    .filter(h => parseHistoryDate(h.date) > statementEnd)
+    .reduce((min, h) => Math.min(min, h.value), asset.value);
+  const billed = Math.max(0, Math.min(statementBalance, lowestSince));
+
+  return {
+    statementDate,
+    nextStatementDate,
+    dueDate,
+    daysUntilDue: daysBetween(today, dueDate),
+    billed: round(billed),
+    unbilled: round(Math.max(0, asset.value - billed)),
+    available: round(card.creditLimit - asset.value)
+  };
+};
+
+/**
+ * 汇总所有信用卡与贷款的待还款项，按到期日排序；已过期未还的账单也会列出。
+ */
+export const getUpcomingPayments = (assets: Asset[], now = new Date(), horizonDays = 31): UpcomingPayment[] => {
+  const items: UpcomingPayment[] = [];
+  assets.forEach(a => {
+    if (a.creditCard) {
+      const status = getCreditCardStatus(a, a.creditCard, now);
+      if (status.billed > 0) {
+        items.push({
+          assetId: a.id,
+          name: a.name,
+          kind: 'credit',
+          dueDate: toDay(status.dueDate),
+          amount: status.billed,
+          currency: a.currency,
+          daysLeft: status.daysUntilDue,
+          isReminder: status.daysUntilDue <= a.creditCard.reminderDays,
+          remindOn: toDay(new Date(status.dueDate.getFullYear(), status.dueDate.getMonth(), status.dueDate.getDate() - a.creditCard.reminderDays))
+        });
+      }
+    }
+    if (a.loan) {
+      const next = nextDuePayment(a.loan);
+      if (next) {
+        const [y, m, d] = next.dueDate.split('-').map(Number);
+        const daysLeft = daysBetween(now, new Date(y, m - 1, d));
+        const reminderDays = a.creditCard?.reminderDays ?? DEFAULT_REMINDER_DAYS;
+        items.push({
+          assetId: a.id,
+          name: a.name,
+          kind: 'loan',
+          dueDate: next.dueDate,
+          amount: next.payment,
+          currency: a.currency,
+          daysLeft,
+          isReminder: daysLeft <= reminderDays,
+          remindOn: toDay(new Date(y, m - 1, d - reminderDays))
+        });
+      }
+    }
+  });
+  return items
+    .filter(i => i.daysLeft <= horizonDays)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
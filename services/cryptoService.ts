@@ -0,0 +1,109 @@
+// 基于 WebCrypto 的口令加密：PBKDF2 由口令派生密钥，AES-GCM 加密数据
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// 用于校验口令是否正确的固定明文
+const LOCK_CHECK = 'finance-lock';
+const ENCRYPTED_BACKUP_FORMAT = 'finance-backup-encrypted';
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+/**
+ * 应用锁配置，明文保存：盐与迭代次数用于重新派生密钥，check 用于校验口令。
+ */
+export interface LockConfig {
+  salt: string;
+  iterations: number;
+  check: EncryptedPayload;
+}
+
+interface EncryptedBackupFile extends EncryptedPayload {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  salt: string;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const isEncryptionSupported = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptText = async (key: CryptoKey, text: string): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// 口令错误或数据被篡改时 AES-GCM 校验失败，统一报口令错误
+const decryptText = async (key: CryptoKey, payload: EncryptedPayload) => {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('口令错误或数据已损坏');
+  }
+};
+
+export const encryptJson = (key: CryptoKey, value: unknown) => encryptText(key, JSON.stringify(value));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => JSON.parse(await decryptText(key, payload));
+
+export const createLock = async (passphrase: string): Promise<{ config: LockConfig; key: CryptoKey }> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { config: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptText(key, LOCK_CHECK) }, key };
+};
+
+/**
+ * 用口令解锁，口令错误时抛出异常。
+ */
+export const unlockWithPassphrase = async (config: LockConfig, passphrase: string) => {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  if (await decryptText(key, config.check) !== LOCK_CHECK) throw new Error('口令错误或数据已损坏');
+  return key;
+};
+
+/**
+ * 加密备份文本：每个文件使用独立的盐，只凭口令即可在任何设备上恢复。
+ */
+export const encryptBackupText = async (passphrase: string, text: string) => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const file: EncryptedBackupFile = { format: ENCRYPTED_BACKUP_FORMAT, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, ...await encryptText(key, text) };
+  return JSON.stringify(file);
+};
+
+export const isEncryptedBackup = (text: string) => {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const decryptBackupText = async (text: string, passphrase: string) => {
+  const file: EncryptedBackupFile = JSON.parse(text);
+  return decryptText(await deriveKey(passphrase, fromBase64(file.salt), file.iterations), file);
+};
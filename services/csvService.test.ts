@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Budget } from "../types";
+import { buildImportRows, detectLayout, parseCSV } from "./csvService";
+
+const budgets: Budget[] = [
+  {
+    id: 'b1',
+    category: '出行',
+    subCategory: '地铁',
+    monthlyAmount: 300,
+    spentThisMonth: 15,
+    carryOver: 0,
+    transactions: [{ id: 'T-OLD', amount: 15, date: '2024-05-01T08:00:00.000Z', note: '地铁' }]
+  }
+];
+
+const wechatBill = (lines: string[]) => [
+  '微信支付账单明细',
+  '交易时间,交易类型,交易对方,商品,收/支,金额(元),支付方式,当前状态,交易单号,商户单号,备注',
+  ...lines
+].join('\n');
+
+const importRows = (csv: string) => {
+  const rows = parseCSV(csv);
+  const { headerIndex, mapping } = detectLayout(rows);
+  return buildImportRows(rows, headerIndex, mapping, budgets);
+};
+
+describe('buildImportRows', () => {
+  it('keeps same-day, same-amount rows with different order ids', () => {
+    const rows = importRows(wechatBill([
+      '2024-05-20 08:10:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,T-1,,/',
+      '2024-05-20 18:30:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,T-2,,/'
+    ]));
+    expect(rows.map(r => r.isDuplicate)).toEqual([false, false]);
+  });
+
+  it('flags rows whose order id was already imported or repeats within the file', () => {
+    const rows = importRows(wechatBill([
+      '2024-05-01 16:00:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,T-OLD,,/',
+      '2024-05-20 08:10:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,T-1,,/',
+      '2024-05-20 08:10:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,T-1,,/'
+    ]));
+    expect(rows.map(r => r.isDuplicate)).toEqual([true, false, true]);
+  });
+
+  it('falls back to date and amount for rows without an order id', () => {
+    const rows = importRows(wechatBill([
+      '2024-05-01 09:00:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,,,/',
+      '2024-05-21 09:00:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,,,/',
+      '2024-05-21 19:00:00,商户消费,地铁,乘车,支出,¥15.00,零钱,支付成功,,,/'
+    ]));
+    expect(rows.map(r => r.isDuplicate)).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,177 @@
+import { Budget, Transaction } from "../types";
+import { buildKeywordRules, matchBudgetForNote } from "./quickEntryService";
+import { formatTransactionDate } from "./ledgerService";
+
+export type BillLayout = 'alipay' | 'wechat' | 'custom';
+
+// 各字段所在列号，-1 表示无此列
+export interface ColumnMapping {
+  date: number;
+  amount: number;
+  note: number;
+  counterparty: number;
+  direction: number;
+  category: number;
+  id: number;
+}
+
+export interface ImportRow {
+  key: string;
+  externalId?: string;
+  date: string; // ISO 时间
+  amount: number;
+  note: string;
+  direction: 'expense' | 'income' | 'other';
+  budgetIndex: number | null;
+  isDuplicate: boolean;
+}
+
+export const EMPTY_MAPPING: ColumnMapping = { date: -1, amount: -1, note: -1, counterparty: -1, direction: -1, category: -1, id: -1 };
+
+/**
+ * 解析 CSV 文本，支持引号包裹、转义引号、字段内换行与 BOM。
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.map(r => r.map(f => f.trim())).filter(r => r.some(f => f !== ''));
+};
+
+/**
+ * 读取账单文件：支付宝导出为 GBK 编码，按 UTF-8 解码出现乱码时改用 GBK。
+ */
+export const readBillFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  return new TextDecoder('gbk').decode(buffer);
+};
+
+const findColumn = (header: string[], names: string[]) =>
+  header.findIndex(h => names.some(n => h.replace(/\s/g, '') === n));
+
+const LAYOUT_COLUMNS: Record<Exclude<BillLayout, 'custom'>, Record<keyof ColumnMapping, string[]>> = {
+  alipay: {
+    date: ['交易时间', '交易创建时间', '付款时间'],
+    amount: ['金额', '金额（元）', '金额(元)'],
+    note: ['商品说明', '商品名称'],
+    counterparty: ['交易对方'],
+    direction: ['收/支'],
+    category: ['交易分类'],
+    id: ['交易订单号', '交易号']
+  },
+  wechat: {
+    date: ['交易时间'],
+    amount: ['金额(元)', '金额（元）'],
+    note: ['商品'],
+    counterparty: ['交易对方'],
+    direction: ['收/支'],
+    category: ['交易类型'],
+    id: ['交易单号']
+  }
+};
+
+const mappingFor = (header: string[], layout: Exclude<BillLayout, 'custom'>): ColumnMapping => {
+  const columns = LAYOUT_COLUMNS[layout];
+  return (Object.keys(columns) as (keyof ColumnMapping)[]).reduce(
+    (m, key) => ({ ...m, [key]: findColumn(header, columns[key]) }),
+    EMPTY_MAPPING
+  );
+};
+
+/**
+ * 识别账单格式：账单文件开头常有说明文字，逐行查找可识别的表头。
+ */
+export const detectLayout = (rows: string[][]): { layout: BillLayout; headerIndex: number; mapping: ColumnMapping } => {
+  for (let i = 0; i < Math.min(rows.length, 30); i++) {
+    const header = rows[i];
+    if (findColumn(header, ['交易单号']) !== -1 && findColumn(header, ['金额(元)', '金额（元）']) !== -1) {
+      return { layout: 'wechat', headerIndex: i, mapping: mappingFor(header, 'wechat') };
+    }
+    if (findColumn(header, ['交易订单号', '交易号']) !== -1 && findColumn(header, ['收/支']) !== -1) {
+      return { layout: 'alipay', headerIndex: i, mapping: mappingFor(header, 'alipay') };
+    }
+  }
+  return { layout: 'custom', headerIndex: 0, mapping: EMPTY_MAPPING };
+};
+
+const parseBillDate = (value: string): Date | null => {
+  const m = value.match(/(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] || 0), Number(m[5] || 0), Number(m[6] || 0));
+};
+
+const parseBillAmount = (value: string) => parseFloat(value.replace(/[¥￥,\s]/g, ''));
+
+const parseDirection = (value: string | undefined, amount: number): ImportRow['direction'] => {
+  if (value === undefined) return amount < 0 ? 'income' : 'expense';
+  if (value.includes('支出')) return 'expense';
+  if (value.includes('收入')) return 'income';
+  return 'other';
+};
+
+/**
+ * 按列映射生成待导入行，并标记与已有流水或文件中前面的行重复（有单号时同单号，否则同日同金额）的行。
+ */
+export const buildImportRows = (rows: string[][], headerIndex: number, mapping: ColumnMapping, budgets: Budget[]): ImportRow[] => {
+  const existing: Transaction[] = budgets.flatMap(b => [...(b.transactions || []), ...(b.history || []).flatMap(r => r.transactions)]);
+  const existingIds = new Set(existing.map(t => t.id));
+  const existingKeys = new Set(existing.map(t => `${formatTransactionDate(t.date)}|${t.amount.toFixed(2)}`));
+  const rules = buildKeywordRules(budgets);
+  const cell = (row: string[], col: number) => col >= 0 ? row[col] : undefined;
+
+  return rows.slice(headerIndex + 1).flatMap((row, i) => {
+    const date = parseBillDate(cell(row, mapping.date) || '');
+    const rawAmount = parseBillAmount(cell(row, mapping.amount) || '');
+    if (!date || isNaN(rawAmount)) return [];
+
+    const direction = parseDirection(cell(row, mapping.direction), rawAmount);
+    const amount = Math.abs(rawAmount);
+    const externalId = cell(row, mapping.id)?.replace(/\t/g, '') || undefined;
+    const note = [cell(row, mapping.counterparty), cell(row, mapping.note)]
+      .filter(v => v && v !== '/')
+      .join(' ')
+      .trim();
+    const matchText = [note, cell(row, mapping.category)].filter(Boolean).join(' ');
+    const iso = date.toISOString();
+    // 有交易单号的行只按单号判断，同日同金额的两笔真实交易（如两次地铁）不算重复；
+    // 没有单号时才退而比较日期与金额。同一文件内重复的行也按已有流水处理
+    const dateKey = `${formatTransactionDate(iso)}|${amount.toFixed(2)}`;
+    const isDuplicate = externalId ? existingIds.has(externalId) : existingKeys.has(dateKey);
+    if (externalId) existingIds.add(externalId);
+    else existingKeys.add(dateKey);
+
+    return [{
+      key: `row-${i}`,
+      externalId,
+      date: iso,
+      amount,
+      note,
+      direction,
+      budgetIndex: matchBudgetForNote(matchText, budgets, rules),
+      isDuplicate
+    }];
+  });
+};
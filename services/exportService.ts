@@ -0,0 +1,142 @@
+import { Asset, AssetCategory, Budget } from "../types";
+import { getBudgetMonthSnapshots, TOTAL_BUDGET_CATEGORY } from "./budgetService";
+import { formatTransactionDate } from "./ledgerService";
+import { valueAt } from "./snapshotService";
+
+type Cell = string | number | undefined;
+
+export interface Sheet {
+  name: string;
+  rows: Cell[][];
+}
+
+// 以 = + - @ 等开头的文本会被 Excel 当作公式执行，前面加单引号按文本显示；数值不受影响
+const escapeCSV = (cell: Cell) => {
+  const raw = cell === undefined ? '' : String(cell);
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 带 BOM 的 UTF-8，Excel 打开时中文不会乱码
+export const toCSV = (rows: Cell[][]): string =>
+  '\uFEFF' + rows.map(r => r.map(escapeCSV).join(',')).join('\r\n');
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 生成 Excel 可直接打开的 SpreadsheetML 工作簿，每个 Sheet 对应一个工作表。
+ */
+export const toSpreadsheetML = (sheets: Sheet[]): string => {
+  const renderCell = (cell: Cell) => typeof cell === 'number'
+    ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXML(cell ?? '')}</Data></Cell>`;
+  const worksheets = sheets.map(s => `
+ <Worksheet ss:Name="${escapeXML(s.name.slice(0, 31))}">
+  <Table>
+${s.rows.map(r => `   <Row>${r.map(renderCell).join('')}</Row>`).join('\n')}
+  </Table>
+ </Worksheet>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<?mso-application progid="Excel.Sheet"?>
+<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">${worksheets}
+</Workbook>`;
+};
+
+export const downloadFile = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const buildAssetRows = (assets: Asset[]): Cell[][] => [
+  ['ID', '名称', '类别', '币种', '当前数值', '目标金额', '期限(月)', '更新日期', '备注'],
+  ...assets.map(a => [a.id, a.name, a.category, a.currency, a.value, a.targetValue, a.durationMonths, a.lastUpdated, a.notes])
+];
+
+export const buildAssetHistoryRows = (assets: Asset[]): Cell[][] => [
+  ['ID', '名称', '类别', '日期', '数值'],
+  ...assets.flatMap(a => a.history.map(h => [a.id, a.name, a.category, h.date, h.value]))
+];
+
+export const buildBudgetRows = (budgets: Budget[], currentMonth: string): Cell[][] => [
+  ['月份', '分类', '项目', '限额', '结转', '支出', '超支', '结转方式'],
+  ...budgets
+    .filter(b => b.category !== TOTAL_BUDGET_CATEGORY)
+    .flatMap(b => [
+      ...(b.history || []).map(r => ({ month: r.month, monthlyAmount: r.monthlyAmount, carryOver: r.carryOver, spent: r.spent })),
+      { month: currentMonth, monthlyAmount: b.monthlyAmount, carryOver: b.carryOver, spent: b.spentThisMonth }
+    ].map(r => [
+      r.month, b.category, b.subCategory, r.monthlyAmount, r.carryOver, r.spent,
+      Math.max(0, r.spent - r.monthlyAmount - r.carryOver), b.rollover || 'full'
+    ]))
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])))
+];
+
+export const buildTransactionRows = (budgets: Budget[], currentMonth: string): Cell[][] => [
+  ['日期', '月份', '分类', '项目', '金额', '备注', 'ID'],
+  ...budgets
+    .filter(b => b.category !== TOTAL_BUDGET_CATEGORY)
+    .flatMap(b => [
+      ...(b.history || []).flatMap(r => r.transactions.map(t => ({ t, month: r.month }))),
+      ...(b.transactions || []).map(t => ({ t, month: currentMonth }))
+    ].map(({ t, month }) => [formatTransactionDate(t.date), month, b.category, b.subCategory, t.amount, t.note, t.id]))
+    .sort((a, b) => String(b[0]).localeCompare(String(a[0])))
+];
+
+/**
+ * 月度报告：月末净资产、资产类别分布与当月预算执行结果。
+ */
+export const buildMonthlyReport = (assets: Asset[], budgets: Budget[], month: string, currentMonth: string): Sheet[] => {
+  const [y, m] = month.split('-').map(Number);
+  const monthEnd = new Date(y, m, 0, 23, 59, 59).getTime();
+  const valueAtMonthEnd = (a: Asset) => month === currentMonth ? a.value : (valueAt(a.history, monthEnd) ?? 0);
+
+  const distribution = new Map<string, number>();
+  assets.forEach(a => distribution.set(a.category, (distribution.get(a.category) || 0) + valueAtMonthEnd(a)));
+  const totalAssets = Array.from(distribution.entries()).filter(([c]) => c !== AssetCategory.LIABILITY).reduce((sum, [, v]) => sum + v, 0);
+  const totalLiabilities = distribution.get(AssetCategory.LIABILITY) || 0;
+
+  const snapshots = getBudgetMonthSnapshots(budgets, month, currentMonth);
+  const budgetLimit = snapshots.reduce((sum, s) => sum + s.monthlyAmount, 0);
+  const budgetSpent = snapshots.reduce((sum, s) => sum + s.spent, 0);
+
+  return [
+    {
+      name: '概览',
+      rows: [
+        ['月份', month],
+        ['总资产', totalAssets],
+        ['总负债', totalLiabilities],
+        ['净资产', totalAssets - totalLiabilities],
+        ['预算总额', budgetLimit],
+        ['实际支出', budgetSpent],
+        ['预算结余', budgetLimit - budgetSpent]
+      ]
+    },
+    {
+      name: '资产分布',
+      rows: [
+        ['类别', '金额', '占比(%)'],
+        ...Array.from(distribution.entries())
+          .filter(([c]) => c !== AssetCategory.LIABILITY)
+          .sort((a, b) => b[1] - a[1])
+          .map(([c, v]) => [c, v, totalAssets > 0 ? Number((v / totalAssets * 100).toFixed(2)) : 0])
+      ]
+    },
+    {
+      name: '预算执行',
+      rows: [
+        ['分类', '项目', '限额', '结转', '支出', '超支', '流水笔数'],
+        ...snapshots.map(s => [s.category, s.subCategory, s.monthlyAmount, s.carryOver, s.spent, s.overspend, s.transactions.length])
+      ]
+    }
+  ];
+};
+
+// 多个区块合并为单个 CSV，区块之间以空行分隔
+export const sheetsToCSV = (sheets: Sheet[]): string =>
+  toCSV(sheets.flatMap((s, i) => [...(i > 0 ? [[]] : []), [`【${s.name}】`], ...s.rows]));
@@ -0,0 +1,99 @@
+import { Asset, ExchangeRate } from "../types";
+import { parseCSV } from "./csvService";
+
+export const BASE_CURRENCY = 'CNY';
+
+export const CURRENCIES: { code: string; symbol: string; name: string }[] = [
+  { code: 'CNY', symbol: '¥', name: '人民币' },
+  { code: 'USD', symbol: '$', name: '美元' },
+  { code: 'HKD', symbol: 'HK$', name: '港币' },
+  { code: 'EUR', symbol: '€', name: '欧元' },
+  { code: 'GBP', symbol: '£', name: '英镑' },
+  { code: 'JPY', symbol: 'JP¥', name: '日元' }
+];
+
+export const currencySymbol = (code: string) =>
+  CURRENCIES.find(c => c.code === code)?.symbol || `${code} `;
+
+export const formatMoney = (value: number, currency: string) =>
+  `${value < 0 ? '-' : ''}${currencySymbol(currency)}${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+/**
+ * 取某币种在指定日期适用的汇率（折合人民币）：优先取当日或之前最近一条，早于所有记录时取最早一条。
+ */
+export const getRate = (rates: ExchangeRate[], currency: string, date?: string): number | undefined => {
+  if (currency === BASE_CURRENCY) return 1;
+  const candidates = rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return undefined;
+  if (!date) return candidates[candidates.length - 1].rate;
+  const day = dayOf(date);
+  let rate = candidates[0].rate;
+  for (const r of candidates) {
+    if (r.date > day) break;
+    rate = r.rate;
+  }
+  return rate;
+};
+
+// 缺少汇率时按 1:1 处理，由 getMissingCurrencies 在界面上提示
+export const convert = (value: number, from: string, to: string, rates: ExchangeRate[], date?: string) => {
+  if (from === to) return value;
+  return value * (getRate(rates, from, date) ?? 1) / (getRate(rates, to, date) ?? 1);
+};
+
+export const getMissingCurrencies = (assets: Asset[], rates: ExchangeRate[], base: string) =>
+  Array.from(new Set([...assets.map(a => a.currency || BASE_CURRENCY), base]))
+    .filter(c => getRate(rates, c) === undefined);
+
+/**
+ * 将资产数值与历史按各自日期的汇率折算为本位币，供汇总、图表与分析使用。
+ */
+export const convertAssets = (assets: Asset[], rates: ExchangeRate[], base: string): Asset[] =>
+  assets.map(a => {
+    const currency = a.currency || BASE_CURRENCY;
+    if (currency === base) return a;
+    return {
+      ...a,
+      currency: base,
+      value: convert(a.value, currency, base, rates),
+      targetValue: a.targetValue !== undefined ? convert(a.targetValue, currency, base, rates) : undefined,
+      history: a.history.map(h => ({ ...h, value: convert(h.value, currency, base, rates, h.date) }))
+    };
+  });
+
+// 同币种同日期的汇率以新值覆盖
+export const upsertRates = (rates: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map(rates.map(r => [`${r.currency}|${r.date}`, r]));
+  incoming.forEach(r => byKey.set(`${r.currency}|${r.date}`, r));
+  return Array.from(byKey.values()).sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+};
+
+/**
+ * 解析汇率 CSV：需包含日期、币种、汇率三列（中英文表头均可），汇率为 1 单位外币折合人民币。
+ */
+export const parseRateCSV = (text: string): { rates: ExchangeRate[]; errors: string[] } => {
+  const rows = parseCSV(text);
+  if (rows.length < 2) return { rates: [], errors: ['文件中没有数据行'] };
+  const header = rows[0].map(h => h.toLowerCase());
+  const col = (names: string[]) => header.findIndex(h => names.includes(h));
+  const dateCol = col(['日期', 'date']);
+  const currencyCol = col(['币种', 'currency']);
+  const rateCol = col(['汇率', 'rate']);
+  if (dateCol < 0 || currencyCol < 0 || rateCol < 0) return { rates: [], errors: ['表头需包含 日期、币种、汇率 三列'] };
+
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  rows.slice(1).forEach((row, i) => {
+    const m = (row[dateCol] || '').match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    const currency = (row[currencyCol] || '').toUpperCase();
+    const rate = parseFloat(row[rateCol]);
+    if (!m || !/^[A-Z]{3}$/.test(currency) || !(rate > 0)) {
+      errors.push(`第 ${i + 2} 行格式错误`);
+      return;
+    }
+    rates.push({ currency, date: `${m[1]}-${m[2].padStart(2, '0')}-${m[3].padStart(2, '0')}`, rate });
+  });
+  return { rates, errors };
+};
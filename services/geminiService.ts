@@ -1,48 +1,125 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Asset, AIInsight } from "../types";
-
-export const getAIInsights = async (assets: Asset[]): Promise<AIInsight> => {
-  // Fixed: Always use exactly the standard initialization pattern with process.env.API_KEY
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const assetSummary = assets.map(a => `${a.name}(${a.category}): ¥${a.value}`).join(', ');
-  
-  const prompt = `作为一个专业的理财分析师，请根据以下资产配置情况提供简短的中文分析和建议。
-  资产清单：${assetSummary}
-  
-  请返回 JSON 格式数据。`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING, description: '资产配置概括' },
-            suggestions: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: '具体的理财建议列表' 
-            },
-            riskLevel: { type: Type.STRING, description: '整体风险等级：低、中、高' }
-          },
-          required: ['summary', 'suggestions', 'riskLevel']
-        }
+import { AIInsight, Budget, FinancialSnapshot, LLMSettings } from "../types";
+import { createLLMProvider } from "./llmProvider";
+import { TOTAL_BUDGET_CATEGORY } from "./budgetService";
+import { ParsedQuickEntry } from "./quickEntryService";
+import { getRuleBasedInsights } from "./ruleInsightService";
+
+// 可替换的分析服务签名，便于在测试中注入本地桩实现
+export type InsightService = (snapshot: FinancialSnapshot) => Promise<AIInsight>;
+
+const INSIGHT_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: '资产配置概括' },
+    suggestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '具体的理财建议列表'
+    },
+    riskLevel: { type: 'string', description: '整体风险等级：低、中、高' },
+    categoryRisks: {
+      type: 'array',
+      description: '按资产或预算类别的风险说明',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string' },
+          riskLevel: { type: 'string', description: '低、中、高' },
+          note: { type: 'string' }
+        },
+        required: ['category', 'riskLevel', 'note']
+      }
+    },
+    actions: {
+      type: 'array',
+      description: '按优先级排序的行动清单',
+      items: {
+        type: 'object',
+        properties: {
+          priority: { type: 'integer' },
+          action: { type: 'string' },
+          reason: { type: 'string' }
+        },
+        required: ['priority', 'action']
       }
-    });
+    }
+  },
+  required: ['summary', 'suggestions', 'riskLevel', 'categoryRisks', 'actions']
+};
+
+const buildInsightPrompt = (snapshot: FinancialSnapshot) => `作为一个专业的理财分析师，请根据以下结构化财务快照提供简短的中文分析和建议。
+  字段说明：netWorth 净资产；liabilityRatio 负债/总资产；categories 为各资产类别当前值及近 90 天变化；
+  liabilities 为各项负债及其目标额度(targetValue)与期限(durationMonths)；budgets 为本月各预算的限额、结转、支出、使用率与超支额。
+  财务快照：${JSON.stringify(snapshot)}
+
+  请结合负债压力、资产趋势与预算执行情况给出判断，categoryRisks 针对每个值得关注的类别给出风险说明，
+  actions 按优先级从 1 开始排序。请返回 JSON 格式数据。`;
+
+/**
+ * 按设置创建分析服务；模型不可用或调用失败时退回规则分析，结果标记为离线建议。
+ */
+export const createInsightService = (settings: LLMSettings): InsightService => {
+  const provider = createLLMProvider(settings);
+  return async (snapshot) => {
+    if (!provider) return getRuleBasedInsights(snapshot);
+    try {
+      const insight = await provider.generateJSON<AIInsight>(buildInsightPrompt(snapshot), INSIGHT_SCHEMA);
+      return { ...insight, actions: [...(insight.actions || [])].sort((a, b) => a.priority - b.priority), isOffline: false };
+    } catch (error) {
+      console.error("LLM API Error:", error);
+      return getRuleBasedInsights(snapshot);
+    }
+  };
+};
+
+// 模型解析一句话记账的结果，budgetIndex 为 -1 表示无法判断归属
+interface LLMParsedEntry {
+  amount: number | null;
+  date: string;
+  note: string;
+  budgetIndex: number;
+}
+
+export type EntryParser = (text: string, budgets: Budget[], now?: Date) => Promise<ParsedQuickEntry>;
+
+const ENTRY_SCHEMA = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number', description: '金额，无法识别时为 null' },
+    date: { type: 'string', description: 'YYYY-MM-DD' },
+    note: { type: 'string', description: '简短备注' },
+    budgetIndex: { type: 'integer', description: '所属预算编号，无法判断时为 -1' }
+  },
+  required: ['amount', 'date', 'note', 'budgetIndex']
+};
 
-    // Fixed: Accessed .text property directly (not as a method)
-    return JSON.parse(response.text || '{}') as AIInsight;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
+/**
+ * 由模型解析一句话记账；选择规则分析时返回 null，调用方只使用本地规则。
+ */
+export const createEntryParser = (settings: LLMSettings): EntryParser | null => {
+  const provider = createLLMProvider(settings);
+  if (!provider) return null;
+  return async (text, budgets, now = new Date()) => {
+    const options = budgets
+      .map((b, i) => ({ b, i }))
+      .filter(({ b }) => b.category !== TOTAL_BUDGET_CATEGORY)
+      .map(({ b, i }) => `${i}: ${b.category}/${b.subCategory || ''}`)
+      .join('\n');
+    const prompt = `今天是 ${now.toISOString().split('T')[0]}。请把下面这句记账描述解析为一笔支出，并从预算列表中选出最合适的一项。
+  预算列表（编号: 分类/项目）：
+  ${options}
+  记账描述：${text}`;
+    const result = await provider.generateJSON<LLMParsedEntry>(prompt, ENTRY_SCHEMA);
+    const [y, m, d] = (result.date || '').split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    const validIndex = Number.isInteger(result.budgetIndex) && budgets[result.budgetIndex] && budgets[result.budgetIndex].category !== TOTAL_BUDGET_CATEGORY;
     return {
-      summary: "暂时无法获取AI分析，请检查网络或API配置。",
-      suggestions: ["保持理性的投资心态", "定期回顾资产状况"],
-      riskLevel: '中'
+      text,
+      amount: typeof result.amount === 'number' && result.amount > 0 ? result.amount : null,
+      date: isNaN(date.getTime()) ? now : date,
+      note: result.note || text,
+      budgetIndex: validIndex ? result.budgetIndex : null
     };
-  }
+  };
 };
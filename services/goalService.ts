@@ -0,0 +1,58 @@
+import { Asset, SavingsGoal } from "../types";
+import { valueAt } from "./snapshotService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 30.44;
+// 用最近 90 天的变化估算储蓄速度
+const PACE_WINDOW_DAYS = 90;
+
+export interface GoalProjection {
+  current: number;
+  remaining: number;
+  progress: number; // 0-1
+  monthsLeft: number;
+  requiredMonthly: number; // 按期达成每月还需存入
+  monthlyPace: number; // 近期实际每月增长
+  onTrack: boolean;
+  expectedDate?: string; // 按当前速度预计达成日期；速度不为正时无法预计
+  isOverdue: boolean;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDay = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * 估算目标进度：assets 需已折算为本位币。储蓄速度取关联账户近 90 天（不足则取最早记录起）的平均月增长。
+ */
+export const projectGoal = (goal: SavingsGoal, assets: Asset[], now = new Date()): GoalProjection => {
+  const linked = assets.filter(a => goal.assetIds.includes(a.id));
+  const current = linked.reduce((sum, a) => sum + a.value, 0);
+  const remaining = Math.max(0, goal.targetAmount - current);
+
+  const since = now.getTime() - PACE_WINDOW_DAYS * DAY_MS;
+  const earliest = Math.min(...linked.flatMap(a => a.history.map(h => new Date(h.date).getTime())), now.getTime());
+  const windowStart = Math.max(since, earliest);
+  const past = linked.reduce((sum, a) => sum + (valueAt(a.history, windowStart) ?? a.history[0]?.value ?? a.value), 0);
+  const windowMonths = (now.getTime() - windowStart) / DAY_MS / MONTH_DAYS;
+  const monthlyPace = windowMonths >= 0.5 ? (current - past) / windowMonths : 0;
+
+  const [y, m, d] = goal.targetDate.split('-').map(Number);
+  const deadline = new Date(y, m - 1, d);
+  const monthsLeft = Math.max(0, (deadline.getTime() - now.getTime()) / DAY_MS / MONTH_DAYS);
+  const expected = remaining === 0
+    ? now
+    : monthlyPace > 0 ? new Date(now.getTime() + remaining / monthlyPace * MONTH_DAYS * DAY_MS) : undefined;
+
+  return {
+    current: round(current),
+    remaining: round(remaining),
+    progress: goal.targetAmount > 0 ? Math.min(1, current / goal.targetAmount) : 0,
+    monthsLeft: Math.round(monthsLeft * 10) / 10,
+    requiredMonthly: round(monthsLeft >= 1 ? remaining / monthsLeft : remaining),
+    monthlyPace: round(monthlyPace),
+    onTrack: remaining === 0 || (!!expected && expected <= deadline),
+    expectedDate: expected ? toDay(expected) : undefined,
+    isOverdue: remaining > 0 && deadline < now
+  };
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetCategory, HistoryPoint, NetWorthPoint } from "../types";
+import { buildNetWorthSeries, downsampleSeries, parseHistoryDate } from "./historyService";
+
+// 改写前 App 中 globalHistory 的逐日逐账户扫描，作为对照实现
+const referenceSeries = (assets: Asset[]): NetWorthPoint[] => {
+  if (assets.length === 0) return [];
+  const allDates = new Set<string>();
+  assets.forEach(a => a.history.forEach(h => allDates.add(h.date)));
+  const sortedDates = Array.from(allDates).sort((a, b) => parseHistoryDate(a) - parseHistoryDate(b));
+  return sortedDates.map(date => {
+    let totalAssets = 0;
+    let totalLiabilities = 0;
+    const categories: Record<string, number> = {};
+    const contributors: NetWorthPoint['contributors'] = [];
+    const targetTime = parseHistoryDate(date);
+    assets.forEach(asset => {
+      let val = 0;
+      const exactMatch = asset.history.find(h => h.date === date);
+      if (exactMatch) {
+        val = exactMatch.value;
+      } else {
+        let closest: HistoryPoint | null = null;
+        let maxTime = -1;
+        for (const h of asset.history) {
+          const hTime = parseHistoryDate(h.date);
+          if (hTime <= targetTime && hTime > maxTime) {
+            maxTime = hTime;
+            closest = h;
+          }
+        }
+        if (closest) val = closest.value;
+      }
+      if (val === 0) return;
+      categories[asset.category] = (categories[asset.category] || 0) + val;
+      contributors.push({ id: asset.id, name: asset.name, category: asset.category, value: val });
+      if (asset.category === AssetCategory.LIABILITY) totalLiabilities += val;
+      else totalAssets += val;
+    });
+    return {
+      date,
+      time: targetTime,
+      value: Math.round((totalAssets - totalLiabilities) * 100) / 100,
+      assets: Math.round(totalAssets * 100) / 100,
+      liabilities: Math.round(totalLiabilities * 100) / 100,
+      categories,
+      contributors
+    };
+  });
+};
+
+// 固定种子的伪随机数，失败时可以复现
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const makeAsset = (id: string, category: AssetCategory, history: HistoryPoint[]): Asset => ({
+  id,
+  name: id,
+  category,
+  value: history.length > 0 ? history[history.length - 1].value : 0,
+  currency: 'CNY',
+  lastUpdated: '',
+  history
+});
+
+const categories = Object.values(AssetCategory);
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 每个账户的日期互不重复、顺序打乱，数值中夹杂 0（不计入汇总）
+const randomAssets = (random: () => number): Asset[] => {
+  const count = 1 + Math.floor(random() * 6);
+  return Array.from({ length: count }, (_, k) => {
+    const dates = new Set<string>();
+    const size = Math.floor(random() * 40);
+    for (let i = 0; i < size; i++) {
+      dates.add(`${2020 + Math.floor(random() * 4)}-${pad(1 + Math.floor(random() * 12))}-${pad(1 + Math.floor(random() * 28))}`);
+    }
+    const history = Array.from(dates).map(date => ({
+      date,
+      value: random() < 0.1 ? 0 : Math.round(random() * 1000000) / 100
+    }));
+    return makeAsset(`a${k}`, categories[Math.floor(random() * categories.length)], history);
+  });
+};
+
+describe('buildNetWorthSeries', () => {
+  it('returns an empty series without assets', () => {
+    expect(buildNetWorthSeries([])).toEqual([]);
+  });
+
+  it('matches the per-date scan on randomized histories', () => {
+    const random = createRandom(20240601);
+    for (let round = 0; round < 200; round++) {
+      const assets = randomAssets(random);
+      expect(buildNetWorthSeries(assets)).toEqual(referenceSeries(assets));
+    }
+  });
+
+  it('carries the latest earlier value forward and nets liabilities', () => {
+    const assets = [
+      makeAsset('bank', AssetCategory.BANK, [{ date: '2024-01-01', value: 100 }, { date: '2024-03-01', value: 300 }]),
+      makeAsset('card', AssetCategory.LIABILITY, [{ date: '2024-02-01', value: 40 }])
+    ];
+    expect(buildNetWorthSeries(assets).map(p => [p.date, p.value, p.assets, p.liabilities])).toEqual([
+      ['2024-01-01', 100, 100, 0],
+      ['2024-02-01', 60, 100, 40],
+      ['2024-03-01', 260, 300, 40]
+    ]);
+  });
+
+  it('uses the last recorded value when a date appears more than once', () => {
+    const assets = [
+      makeAsset('bank', AssetCategory.BANK, [
+        { date: '2024-01-01', value: 100 },
+        { date: '2024-01-02', value: 200 },
+        { date: '2024-01-02', value: 250 }
+      ])
+    ];
+    expect(buildNetWorthSeries(assets).map(p => p.value)).toEqual([100, 250]);
+  });
+});
+
+describe('downsampleSeries', () => {
+  const series = (times: number[]) => times.map(time => ({ time }));
+
+  it('returns short series unchanged', () => {
+    const input = series([1, 2, 3]);
+    expect(downsampleSeries(input, 3)).toBe(input);
+    expect(downsampleSeries(input, 1)).toBe(input);
+  });
+
+  it('stays within the point limit and keeps the first and last points in order', () => {
+    const random = createRandom(7);
+    for (let round = 0; round < 200; round++) {
+      const times = Array.from({ length: 2 + Math.floor(random() * 500) }, () => Math.floor(random() * 100000)).sort((a, b) => a - b);
+      const input = series(times);
+      const maxPoints = 2 + Math.floor(random() * 60);
+      const result = downsampleSeries(input, maxPoints);
+      expect(result.length).toBeLessThanOrEqual(maxPoints);
+      expect(result[0]).toBe(input[0]);
+      expect(result[result.length - 1]).toBe(input[input.length - 1]);
+      const positions = result.map(p => input.indexOf(p));
+      expect(positions.every((p, i) => p >= 0 && (i === 0 || p > positions[i - 1]))).toBe(true);
+    }
+  });
+
+  it('handles series where every point has the same time', () => {
+    const input = series([5, 5, 5, 5, 5]);
+    const result = downsampleSeries(input, 3);
+    expect(result.length).toBeLessThanOrEqual(3);
+    expect(result[0]).toBe(input[0]);
+    expect(result[result.length - 1]).toBe(input[4]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Asset, AssetCategory, NetWorthPoint } from "../types";
+
+/**
+ * 历史日期转为时间戳：YYYY-MM-DD 按 Date 解析，旧数据的 "MM/DD" 视为今年。
+ */
+export const parseHistoryDate = (date: string): number => {
+  if (date.includes('-')) return new Date(date).getTime();
+  const [m, d] = date.split('/').map(Number);
+  return new Date(new Date().getFullYear(), m - 1, d).getTime();
+};
+
+interface IndexedHistory {
+  asset: Asset;
+  times: number[];
+  values: number[];
+}
+
+// 每个账户的历史只解析、排序一次；同一时间有多条记录时取原顺序中的最后一条（最近写入的数值）
+const indexHistory = (asset: Asset): IndexedHistory => {
+  const points = asset.history
+    .map((h, i) => ({ time: parseHistoryDate(h.date), value: h.value, i }))
+    .filter(p => !isNaN(p.time))
+    .sort((a, b) => a.time - b.time || a.i - b.i);
+  const times: number[] = [];
+  const values: number[] = [];
+  points.forEach(p => {
+    if (times.length > 0 && times[times.length - 1] === p.time) {
+      values[values.length - 1] = p.value;
+      return;
+    }
+    times.push(p.time);
+    values.push(p.value);
+  });
+  return { asset, times, values };
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * 汇总净资产序列：取所有账户出现过的日期，按时间升序归并；每个账户维护一个只前进的游标，
+ * 取该日或之前最近一次记录的数值，整体复杂度为 O(N log N)（N 为全部历史点数）。
+ */
+export const buildNetWorthSeries = (assets: Asset[]): NetWorthPoint[] => {
+  if (assets.length === 0) return [];
+  const indexed = assets.map(indexHistory);
+  const dates = new Map<string, number>();
+  assets.forEach(a => a.history.forEach(h => {
+    if (!dates.has(h.date)) dates.set(h.date, parseHistoryDate(h.date));
+  }));
+  const sortedDates = Array.from(dates.entries()).sort((a, b) => a[1] - b[1]);
+  const cursors = indexed.map(() => -1);
+
+  return sortedDates.map(([date, time]) => {
+    let totalAssets = 0;
+    let totalLiabilities = 0;
+    const categories: Record<string, number> = {};
+    const contributors: NetWorthPoint['contributors'] = [];
+    indexed.forEach(({ asset, times, values }, k) => {
+      let cursor = cursors[k];
+      while (cursor + 1 < times.length && times[cursor + 1] <= time) cursor++;
+      cursors[k] = cursor;
+      const val = cursor >= 0 ? values[cursor] : 0;
+      if (val === 0) return;
+      categories[asset.category] = (categories[asset.category] || 0) + val;
+      contributors.push({ id: asset.id, name: asset.name, category: asset.category, value: val });
+      if (asset.category === AssetCategory.LIABILITY) totalLiabilities += val;
+      else totalAssets += val;
+    });
+    return {
+      date,
+      time,
+      value: round(totalAssets - totalLiabilities),
+      assets: round(totalAssets),
+      liabilities: round(totalLiabilities),
+      categories,
+      contributors
+    };
+  });
+};
+
+/**
+ * 降采样：按时间均分为 maxPoints 段，每段保留最后一个点（即期末余额），首个点始终保留。
+ */
+export const downsampleSeries = <T extends { time: number }>(series: T[], maxPoints: number): T[] => {
+  if (series.length <= maxPoints || maxPoints < 2) return series;
+  const start = series[0].time;
+  const span = series[series.length - 1].time - start || 1;
+  const buckets = maxPoints - 1;
+  const result: T[] = [series[0]];
+  let lastBucket = -1;
+  for (let i = 1; i < series.length; i++) {
+    const bucket = Math.min(buckets - 1, Math.floor((series[i].time - start) / span * buckets));
+    if (bucket === lastBucket) result[result.length - 1] = series[i];
+    else result.push(series[i]);
+    lastBucket = bucket;
+  }
+  return result;
+};
@@ -0,0 +1,175 @@
+import { Asset, Holding, HoldingEvent, HistoryPoint } from "../types";
+import { mergeHistoryPoints } from "./snapshotService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HoldingSummary {
+  units: number;
+  costPerUnit: number;
+  costBasis: number;
+  invested: number; // 累计买入金额
+  marketValue: number;
+  realisedGain: number;
+  unrealisedGain: number;
+  dividends: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  xirr?: number; // 年化收益率，小数
+}
+
+export interface CashFlow {
+  date: Date;
+  amount: number; // 投入为负，取回为正
+}
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+const sortEvents = (events: HoldingEvent[]) =>
+  [...events].sort((a, b) => a.date.localeCompare(b.date));
+
+// 买入含手续费为投入，卖出扣除手续费为取回；units 为实际成交的份额（卖出超过持有份额时按持有份额计）
+const eventCashFlow = (e: HoldingEvent, units = e.units): number => {
+  const gross = units * e.price;
+  switch (e.type) {
+    case 'buy': return -(gross + (e.fee || 0));
+    case 'sell': return gross - (e.fee || 0);
+    case 'dividend': return e.units > 0 ? 0 : (e.amount || 0);
+  }
+};
+
+/**
+ * 按时间顺序回放交易，以移动加权平均成本计算份额、成本与已实现收益。
+ */
+export const summarizeHolding = (holding: Holding, now = new Date()): HoldingSummary => {
+  let units = 0;
+  let costBasis = 0;
+  let invested = 0;
+  let realisedGain = 0;
+  let dividends = 0;
+  const flows: CashFlow[] = [];
+
+  sortEvents(holding.events).forEach(e => {
+    const flow = eventCashFlow(e, e.type === 'sell' ? Math.min(e.units, units) : e.units);
+    if (flow !== 0) flows.push({ date: new Date(e.date), amount: flow });
+    if (e.type === 'buy') {
+      const cost = e.units * e.price + (e.fee || 0);
+      units += e.units;
+      costBasis += cost;
+      invested += cost;
+    } else if (e.type === 'sell') {
+      const sold = Math.min(e.units, units);
+      const avgCost = units > 0 ? costBasis / units : 0;
+      realisedGain += sold * e.price - (e.fee || 0) - avgCost * sold;
+      costBasis -= avgCost * sold;
+      units -= sold;
+    } else {
+      // 红利再投资按分红金额计入成本，现金分红直接计入收益
+      const amount = e.amount ?? e.units * e.price;
+      dividends += amount;
+      if (e.units > 0) {
+        units += e.units;
+        costBasis += amount;
+      }
+    }
+  });
+
+  const marketValue = units * holding.nav;
+  const unrealisedGain = marketValue - costBasis;
+  const totalReturn = realisedGain + unrealisedGain + dividends;
+  if (marketValue > 0) flows.push({ date: now, amount: marketValue });
+
+  return {
+    units: round(units, 4),
+    costPerUnit: units > 0 ? round(costBasis / units, 4) : 0,
+    costBasis: round(costBasis),
+    invested: round(invested),
+    marketValue: round(marketValue),
+    realisedGain: round(realisedGain),
+    unrealisedGain: round(unrealisedGain),
+    dividends: round(dividends),
+    totalReturn: round(totalReturn),
+    totalReturnPercent: invested > 0 ? round(totalReturn / invested * 100) : 0,
+    xirr: xirr(flows)
+  };
+};
+
+/**
+ * 计算不定期现金流的年化内部收益率（XIRR），用二分法求解；持有不足一周或无法求解时返回 undefined。
+ */
+export const xirr = (flows: CashFlow[]): number | undefined => {
+  if (!flows.some(f => f.amount < 0) || !flows.some(f => f.amount > 0)) return undefined;
+  const start = Math.min(...flows.map(f => f.date.getTime()));
+  const end = Math.max(...flows.map(f => f.date.getTime()));
+  if (end - start < 7 * DAY_MS) return undefined;
+
+  const npv = (rate: number) => flows.reduce(
+    (sum, f) => sum + f.amount / Math.pow(1 + rate, (f.date.getTime() - start) / (365 * DAY_MS)),
+    0
+  );
+  let lo = -0.9999;
+  let hi = 10;
+  if (npv(lo) * npv(hi) > 0) return undefined;
+  for (let i = 0; i < 200 && hi - lo > 1e-7; i++) {
+    const mid = (lo + hi) / 2;
+    if (npv(lo) * npv(mid) <= 0) hi = mid;
+    else lo = mid;
+  }
+  return round((lo + hi) / 2, 6);
+};
+
+// 最近两个净值点的涨跌幅（%）
+export const navChangePercent = (holding: Holding): number | undefined => {
+  const points = [...holding.navHistory].sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length < 2) return undefined;
+  const prev = points[points.length - 2].value;
+  const last = points[points.length - 1].value;
+  return prev !== 0 ? round((last - prev) / prev * 100) : undefined;
+};
+
+/**
+ * 记录某日净值：同日覆盖，按日期排序，最新净值取最后一个点。
+ */
+export const setNav = (holding: Holding, nav: number, date = new Date().toISOString().split('T')[0]): Holding => {
+  const navHistory = [...holding.navHistory.filter(h => h.date !== date), { date, value: nav }]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { ...holding, navHistory, nav: navHistory[navHistory.length - 1].value };
+};
+
+/**
+ * 由持仓推导资产市值与涨跌幅；没有持仓明细的资产原样返回。
+ */
+export const withHoldingValue = (asset: Asset, now = new Date()): Asset => {
+  if (!asset.holding) return asset;
+  return {
+    ...asset,
+    value: summarizeHolding(asset.holding, now).marketValue,
+    change24h: navChangePercent(asset.holding)
+  };
+};
+
+// 截至某日（含）持有的份额
+export const unitsOn = (holding: Holding, date: string): number =>
+  sortEvents(holding.events)
+    .filter(e => e.date <= date)
+    .reduce((units, e) => e.type === 'sell' ? Math.max(0, units - e.units) : units + e.units, 0);
+
+/**
+ * 导入一段净值序列：合并进净值历史，并按当日持有份额换算出资产历史市值供回填。
+ */
+export const applyNavSeries = (holding: Holding, points: HistoryPoint[]): { holding: Holding; backfill: HistoryPoint[] } => {
+  const navHistory = mergeHistoryPoints(holding.navHistory, points);
+  const backfill = points
+    .map(p => ({ date: p.date, value: round(unitsOn(holding, p.date) * p.value) }))
+    .filter(p => p.value > 0);
+  return {
+    holding: { ...holding, navHistory, nav: navHistory[navHistory.length - 1]?.value ?? holding.nav },
+    backfill
+  };
+};
+
+export const createHolding = (units: number, costPerUnit: number, nav: number, code?: string, date = new Date().toISOString().split('T')[0]): Holding => ({
+  code,
+  nav,
+  navHistory: [{ date, value: nav }],
+  events: units > 0 ? [{ id: Date.now().toString(), type: 'buy', date, units, price: costPerUnit }] : []
+});
@@ -0,0 +1,163 @@
+import { Budget, BudgetMonthRecord, Transaction } from "../types";
+import { computeCarryOver, getMonthKey, syncTotalBudget, TOTAL_BUDGET_CATEGORY } from "./budgetService";
+
+export const ADJUSTMENT_NOTE = '手动调整';
+
+const LEGACY_DATE_RE = /^(\d{1,2})\/(\d{1,2})$/;
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/**
+ * 指定日期的流水时间戳：当天记账保留当前时刻，补记往日则取该日零点。
+ */
+export const toTransactionTimestamp = (day: Date, now = new Date()): string =>
+  (sameDay(day, now) ? now : new Date(day.getFullYear(), day.getMonth(), day.getDate())).toISOString();
+
+export const formatTransactionDate = (date: string): string => {
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// 旧版流水只存 "MM/DD"，按所属月份补全年份；月份晚于所属月份的视为上一年
+const migrateTransactionDate = (date: string, referenceMonth: string): string => {
+  const match = date.match(LEGACY_DATE_RE);
+  if (!match) return date;
+  const [refYear, refMonth] = referenceMonth.split('-').map(Number);
+  const month = Number(match[1]);
+  const year = month > refMonth ? refYear - 1 : refYear;
+  return new Date(year, month - 1, Number(match[2])).toISOString();
+};
+
+export const sumTransactions = (transactions: Transaction[] = []) =>
+  transactions.reduce((sum, t) => sum + t.amount, 0);
+
+// 替换流水并由流水重新计算本月支出
+const withTransactions = (budget: Budget, transactions: Transaction[]): Budget => ({
+  ...budget,
+  transactions,
+  spentThisMonth: sumTransactions(transactions)
+});
+
+const sortByDateDesc = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+const monthOf = (t: Transaction) => {
+  const d = new Date(t.date);
+  return isNaN(d.getTime()) ? '' : getMonthKey(d);
+};
+
+// 某月归档记录结算后的结转额，结转方式取预算当前设置
+const carryOverAfter = (budget: Budget, record: BudgetMonthRecord) =>
+  computeCarryOver({ ...budget, monthlyAmount: record.monthlyAmount, carryOver: record.carryOver, spentThisMonth: record.spent });
+
+/**
+ * 写入流水：早于本月的补记归入对应月份的归档记录，并从该月起重算之后各月与本月的结转；
+ * 该月没有归档记录（预算尚未建立）时新建一条只记支出的记录，不影响结转。本月支出只统计本月的流水。
+ */
+const placeTransactions = (budget: Budget, transactions: Transaction[], currentMonth = getMonthKey(new Date())): Budget => {
+  const past = transactions.filter(t => { const month = monthOf(t); return month !== '' && month < currentMonth; });
+  if (past.length === 0) return withTransactions(budget, sortByDateDesc(transactions));
+  const history = [...(budget.history || [])];
+  let earliest: string | undefined;
+  past.forEach(t => {
+    const month = monthOf(t);
+    const index = history.findIndex(r => r.month === month);
+    if (index < 0) {
+      history.push({ month, monthlyAmount: 0, spent: t.amount, carryOver: 0, transactions: [t] });
+      return;
+    }
+    history[index] = { ...history[index], spent: history[index].spent + t.amount, transactions: sortByDateDesc([t, ...history[index].transactions]) };
+    if (!earliest || month < earliest) earliest = month;
+  });
+  history.sort((a, b) => a.month.localeCompare(b.month));
+  let carryOver = budget.carryOver;
+  if (earliest) {
+    const start = history.findIndex(r => r.month === earliest);
+    for (let i = start; i < history.length; i++) {
+      if (i > start) history[i] = { ...history[i], carryOver: carryOverAfter(budget, history[i - 1]) };
+      carryOver = carryOverAfter(budget, history[i]);
+    }
+  }
+  const current = transactions.filter(t => !past.includes(t));
+  return { ...withTransactions(budget, sortByDateDesc(current)), history, carryOver };
+};
+
+export const createBudgetId = () => `budget-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 按给定流水重建预算：按日期倒序排列并重新计算本月支出。
+ */
+export const setBudgetTransactions = (budget: Budget, transactions: Transaction[]): Budget =>
+  withTransactions(budget, sortByDateDesc(transactions));
+
+/**
+ * 升级旧数据：补全预算 id 与流水日期，并在本月支出与流水合计不一致时补一笔调整流水，保证两者同步。
+ */
+export const migrateBudgets = (budgets: Budget[], currentMonth: string): Budget[] =>
+  budgets.map(b => {
+    const history = b.history?.map(r => ({
+      ...r,
+      transactions: r.transactions.map(t => ({ ...t, date: migrateTransactionDate(t.date, r.month) }))
+    }));
+    let transactions = (b.transactions || []).map(t => ({ ...t, date: migrateTransactionDate(t.date, currentMonth) }));
+    const diff = b.spentThisMonth - sumTransactions(transactions);
+    if (b.category !== TOTAL_BUDGET_CATEGORY && Math.abs(diff) > 0.005) {
+      transactions = [...transactions, { id: `adj-${currentMonth}-${transactions.length}`, amount: diff, date: new Date().toISOString(), note: ADJUSTMENT_NOTE }];
+    }
+    return {
+      ...b,
+      id: b.id || createBudgetId(),
+      ...(history ? { history } : {}),
+      ...(b.category === TOTAL_BUDGET_CATEGORY ? { transactions } : withTransactions(b, sortByDateDesc(transactions)))
+    };
+  });
+
+export const addTransaction = (budgets: Budget[], index: number, transaction: Transaction): Budget[] => {
+  const next = [...budgets];
+  next[index] = placeTransactions(next[index], [transaction, ...(next[index].transactions || [])]);
+  return syncTotalBudget(next);
+};
+
+/**
+ * 批量写入流水（如账单导入），每个预算只重新计算一次。
+ */
+export const addTransactions = (budgets: Budget[], entries: { budgetIndex: number; transaction: Transaction }[]): Budget[] => {
+  const next = [...budgets];
+  const grouped = new Map<number, Transaction[]>();
+  entries.forEach(({ budgetIndex, transaction }) => grouped.set(budgetIndex, [...(grouped.get(budgetIndex) || []), transaction]));
+  grouped.forEach((transactions, index) => {
+    next[index] = placeTransactions(next[index], [...transactions, ...(next[index].transactions || [])]);
+  });
+  return syncTotalBudget(next);
+};
+
+export const updateTransaction = (budgets: Budget[], index: number, id: string, updates: Partial<Transaction>): Budget[] => {
+  const next = [...budgets];
+  const transactions = (next[index].transactions || []).map(t => t.id === id ? { ...t, ...updates, id } : t);
+  next[index] = placeTransactions(next[index], transactions);
+  return syncTotalBudget(next);
+};
+
+export const deleteTransaction = (budgets: Budget[], index: number, id: string): Budget[] => {
+  const next = [...budgets];
+  next[index] = withTransactions(next[index], (next[index].transactions || []).filter(t => t.id !== id));
+  return syncTotalBudget(next);
+};
+
+export const moveTransaction = (budgets: Budget[], fromIndex: number, toIndex: number, id: string): Budget[] => {
+  if (fromIndex === toIndex) return budgets;
+  const transaction = budgets[fromIndex].transactions?.find(t => t.id === id);
+  if (!transaction) return budgets;
+  return addTransaction(deleteTransaction(budgets, fromIndex, id), toIndex, transaction);
+};
+
+/**
+ * 直接修改本月支出时，以一笔调整流水记录差额，而不是覆盖支出数值。
+ */
+export const setSpentAmount = (budgets: Budget[], index: number, spent: number): Budget[] => {
+  const diff = spent - budgets[index].spentThisMonth;
+  if (Math.abs(diff) < 0.005) return budgets;
+  return addTransaction(budgets, index, { id: Date.now().toString(), amount: diff, date: new Date().toISOString(), note: ADJUSTMENT_NOTE });
+};
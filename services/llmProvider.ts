@@ -0,0 +1,78 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMSettings } from "../types";
+
+// 各模型服务的统一接口：输入提示词与 JSON Schema，返回解析后的 JSON 对象
+export interface LLMProvider {
+  generateJSON: <T>(prompt: string, schema: object) => Promise<T>;
+}
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'rules',
+  endpoint: '',
+  model: '',
+  apiKey: ''
+};
+
+export const DEFAULT_MODELS: Record<LLMSettings['provider'], string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1',
+  rules: ''
+};
+
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+
+const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  return {
+    generateJSON: async <T>(prompt: string, schema: object) => {
+      const response = await ai.models.generateContent({
+        model: settings.model || DEFAULT_MODELS.gemini,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema
+        }
+      });
+      return JSON.parse(response.text || '{}') as T;
+    }
+  };
+};
+
+// 兼容 OpenAI Chat Completions 协议的服务，包括本地的 llama.cpp server 与 Ollama
+const createOpenAICompatibleProvider = (settings: LLMSettings): LLMProvider => ({
+  generateJSON: async <T>(prompt: string, schema: object) => {
+    const endpoint = (settings.endpoint || DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, '');
+    const res = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model || DEFAULT_MODELS.openai,
+        messages: [
+          { role: 'system', content: `只输出符合以下 JSON Schema 的 JSON：${JSON.stringify(schema)}` },
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2
+      })
+    });
+    if (!res.ok) throw new Error(`模型服务返回 ${res.status}`);
+    const data = await res.json();
+    const content: string = data.choices?.[0]?.message?.content || '{}';
+    // 部分本地模型会把 JSON 包在代码块中
+    return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, '')) as T;
+  }
+});
+
+/**
+ * 按设置创建模型服务；选择规则分析时不需要模型，返回 null。
+ */
+export const createLLMProvider = (settings: LLMSettings): LLMProvider | null => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings);
+    case 'openai': return createOpenAICompatibleProvider(settings);
+    default: return null;
+  }
+};
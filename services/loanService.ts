@@ -0,0 +1,124 @@
+import { Asset, Loan, RepaymentMethod } from "../types";
+
+export const REPAYMENT_METHOD_LABELS: Record<RepaymentMethod, string> = {
+  'annuity': '等额本息',
+  'equal-principal': '等额本金',
+  'interest-only': '先息后本',
+  'minimum': '最低还款'
+};
+
+export const DEFAULT_MINIMUM_PERCENT = 10;
+
+// 最低还款至少还这么多，避免余额很小时永远还不完
+const MINIMUM_PAYMENT_FLOOR = 50;
+const MAX_MINIMUM_PERIODS = 360;
+
+export interface ScheduleRow {
+  period: number; // 从 1 开始
+  dueDate: string; // YYYY-MM-DD
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // 本期还款后剩余本金
+  paid: boolean;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 第 period 期的还款日：放款次月起每月 dueDay，遇到小月取月末
+export const dueDateOf = (loan: Loan, period: number): string => {
+  const [y, m] = loan.startDate.split('-').map(Number);
+  const first = new Date(y, m - 1 + period, 1);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return `${first.getFullYear()}-${pad(first.getMonth() + 1)}-${pad(Math.min(loan.dueDay, lastDay))}`;
+};
+
+/**
+ * 按还款方式生成完整还款计划；已还期数以 payments 中的记录为准。
+ */
+export const buildSchedule = (loan: Loan): ScheduleRow[] => {
+  const rate = loan.annualRate / 1200;
+  const paid = new Map(loan.payments.map(p => [p.period, p]));
+  const rows: ScheduleRow[] = [];
+  let balance = loan.principal;
+  const n = Math.max(1, loan.termMonths);
+  const annuity = rate > 0 ? loan.principal * rate / (1 - Math.pow(1 + rate, -n)) : loan.principal / n;
+  const periods = loan.method === 'minimum' ? MAX_MINIMUM_PERIODS : n;
+
+  for (let period = 1; period <= periods && balance > 0.005; period++) {
+    const interest = round(balance * rate);
+    let principal: number;
+    switch (loan.method) {
+      case 'annuity':
+        principal = period === n ? balance : round(annuity - interest);
+        break;
+      case 'equal-principal':
+        principal = period === n ? balance : round(loan.principal / n);
+        break;
+      case 'interest-only':
+        principal = period === n ? balance : 0;
+        break;
+      case 'minimum': {
+        // 最低还款额已含当期利息，扣除利息后的部分才用于还本
+        const minimum = Math.max(balance * (loan.minimumPercent ?? DEFAULT_MINIMUM_PERCENT) / 100, MINIMUM_PAYMENT_FLOOR);
+        principal = Math.min(balance, Math.max(0, round(minimum - interest)));
+        break;
+      }
+    }
+    // 已还的期次按实际记录的本金推进余额
+    const record = paid.get(period);
+    if (record) principal = record.principal;
+    principal = Math.min(balance, principal);
+    balance = round(balance - principal);
+    rows.push({
+      period,
+      dueDate: dueDateOf(loan, period),
+      payment: round(principal + (record ? record.interest : interest)),
+      principal,
+      interest: record ? record.interest : interest,
+      balance,
+      paid: !!record
+    });
+  }
+  return rows;
+};
+
+export const nextDuePayment = (loan: Loan): ScheduleRow | undefined =>
+  buildSchedule(loan).find(r => !r.paid);
+
+/**
+ * 标记一期已还：负债减少该期本金，由调用方写入历史。
+ */
+export const recordLoanPayment = (asset: Asset, row: ScheduleRow): Partial<Asset> => {
+  if (!asset.loan) return {};
+  return {
+    value: round(Math.max(0, asset.value - row.principal)),
+    loan: {
+      ...asset.loan,
+      payments: [...asset.loan.payments, { period: row.period, principal: row.principal, interest: row.interest, paidAt: new Date().toISOString() }]
+    }
+  };
+};
+
+// 撤销最近一期还款，负债加回该期本金
+export const undoLoanPayment = (asset: Asset): Partial<Asset> => {
+  if (!asset.loan || asset.loan.payments.length === 0) return {};
+  const last = asset.loan.payments.reduce((a, b) => b.period > a.period ? b : a);
+  return {
+    value: round(asset.value + last.principal),
+    loan: { ...asset.loan, payments: asset.loan.payments.filter(p => p !== last) }
+  };
+};
+
+export const summarizeLoan = (loan: Loan) => {
+  const schedule = buildSchedule(loan);
+  const remaining = schedule.filter(r => !r.paid);
+  return {
+    schedule,
+    totalInterest: round(schedule.reduce((sum, r) => sum + r.interest, 0)),
+    paidPrincipal: round(schedule.filter(r => r.paid).reduce((sum, r) => sum + r.principal, 0)),
+    remainingPeriods: remaining.length,
+    next: remaining[0]
+  };
+};
@@ -0,0 +1,79 @@
+import { HistoryPoint } from "../types";
+import { parseCSV, readBillFile } from "./csvService";
+
+export interface NavSeries {
+  code?: string;
+  points: HistoryPoint[]; // 按日期升序
+  errors: string[];
+}
+
+const DATE_KEYS = ['FSRQ', 'date', 'Date', '净值日期', '日期', 'x'];
+const NAV_KEYS = ['DWJZ', 'nav', 'NAV', 'unitNav', '单位净值', '净值', 'close', 'y', 'value'];
+const CODE_KEYS = ['fundCode', 'FCODE', 'code', '基金代码'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 统一为 YYYY-MM-DD；数字视为毫秒时间戳（净值走势接口的 x 字段）
+const normalizeDate = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
+  const m = String(value ?? '').match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+  return m ? `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}` : null;
+};
+
+const pick = (row: Record<string, unknown>, keys: string[]) => keys.map(k => row[k]).find(v => v !== undefined && v !== '');
+
+const codeFromFilename = (filename: string) => filename.match(/(?:^|\D)(\d{6})(?:\D|$)/)?.[1];
+
+const finish = (code: string | undefined, raw: { date: unknown; nav: unknown }[], errors: string[]): NavSeries => {
+  const byDate = new Map<string, number>();
+  raw.forEach((r, i) => {
+    const date = normalizeDate(r.date);
+    const nav = parseFloat(String(r.nav ?? ''));
+    if (!date || !(nav > 0)) errors.push(`第 ${i + 1} 条记录格式错误`);
+    else byDate.set(date, nav);
+  });
+  const points = Array.from(byDate.entries())
+    .map(([date, value]) => ({ date, value }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { code, points, errors };
+};
+
+// JSON 可为记录数组，或基金网站接口返回的 { Data: { LSJZList } }、{ Data_netWorthTrend }、{ code, data } 等结构
+const parseNavJSON = (data: unknown, fallbackCode?: string): NavSeries => {
+  const root = (data && typeof data === 'object' ? data : {}) as Record<string, any>;
+  const list: unknown = Array.isArray(data)
+    ? data
+    : root.Data?.LSJZList ?? root.LSJZList ?? root.Data_netWorthTrend ?? root.data ?? root.Data;
+  if (!Array.isArray(list)) return { code: fallbackCode, points: [], errors: ['未找到净值数组'] };
+  const code = String(pick(root, CODE_KEYS) ?? pick(root.Data || {}, CODE_KEYS) ?? fallbackCode ?? '') || undefined;
+  const rows = list.filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+  return finish(code, rows.map(r => ({ date: pick(r, DATE_KEYS), nav: pick(r, NAV_KEYS) })), []);
+};
+
+const parseNavCSV = (text: string, fallbackCode?: string): NavSeries => {
+  const rows = parseCSV(text);
+  if (rows.length < 2) return { code: fallbackCode, points: [], errors: ['文件中没有数据行'] };
+  const header = rows[0];
+  const dateCol = header.findIndex(h => DATE_KEYS.includes(h));
+  const navCol = header.findIndex(h => NAV_KEYS.includes(h));
+  if (dateCol < 0 || navCol < 0) return { code: fallbackCode, points: [], errors: ['表头需包含 净值日期 与 单位净值 两列'] };
+  const codeCol = header.findIndex(h => CODE_KEYS.includes(h));
+  const code = (codeCol >= 0 ? rows[1][codeCol] : undefined) || fallbackCode;
+  return finish(code, rows.slice(1).map(r => ({ date: r[dateCol], nav: r[navCol] })), []);
+};
+
+/**
+ * 读取净值文件（CSV 或 JSON），代码优先取文件内容，其次取文件名中的 6 位数字。
+ */
+export const readNavFile = async (file: File): Promise<NavSeries> => {
+  const text = (await readBillFile(file)).replace(/^\uFEFF/, '');
+  const fallbackCode = codeFromFilename(file.name);
+  try {
+    return parseNavJSON(JSON.parse(text), fallbackCode);
+  } catch {
+    return parseNavCSV(text, fallbackCode);
+  }
+};
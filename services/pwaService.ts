@@ -0,0 +1,139 @@
+// 安装为应用（PWA）相关：service worker 注册与更新、随主题色变化的清单与图标、还款提醒
+
+declare const __SERVICE_WORKER__: boolean;
+
+const REMINDER_TAG = 'payment-reminders';
+const REMINDER_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * 交给 service worker 的还款提醒，remindOn 当天或之后提醒一次。
+ */
+export interface ReminderNotice {
+  id: string;
+  title: string;
+  body: string;
+  remindOn: string; // YYYY-MM-DD
+}
+
+// 后台定期同步目前只有部分浏览器支持，DOM 类型定义中没有
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+type UpdateListener = (apply: () => void) => void;
+
+let applyUpdate: (() => void) | null = null;
+const updateListeners = new Set<UpdateListener>();
+
+const notifyUpdate = (worker: ServiceWorker) => {
+  applyUpdate = () => {
+    // 新版本接管后重新载入页面
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  };
+  updateListeners.forEach(listener => listener(applyUpdate));
+};
+
+/**
+ * 注册 service worker；已有旧版本控制页面时，新版本安装完成后通知 onServiceWorkerUpdate 的订阅者。
+ */
+export const registerServiceWorker = async () => {
+  if (!__SERVICE_WORKER__ || !('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.register('./sw.js');
+    const track = (worker: ServiceWorker | null) => worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) notifyUpdate(worker);
+    });
+    if (registration.waiting && navigator.serviceWorker.controller) notifyUpdate(registration.waiting);
+    track(registration.installing);
+    registration.addEventListener('updatefound', () => track(registration.installing));
+    // 手机上应用常驻后台，回到前台时检查是否有新版本
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => undefined);
+    });
+  } catch (e) {
+    console.error('Service worker registration failed:', e);
+  }
+};
+
+/**
+ * 订阅新版本就绪事件，返回取消订阅的函数；订阅前已就绪的版本会立即通知。
+ */
+export const onServiceWorkerUpdate = (listener: UpdateListener) => {
+  updateListeners.add(listener);
+  if (applyUpdate) listener(applyUpdate);
+  return () => { updateListeners.delete(listener); };
+};
+
+const appIconSvg = (color: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">
+<rect width="512" height="512" fill="${color}"/>
+<rect x="143" y="123" width="195" height="51" rx="15" fill="#ffffff" fill-opacity="0.6"/>
+<rect x="113" y="154" width="286" height="215" rx="31" fill="#ffffff"/>
+<rect x="287" y="225" width="123" height="72" rx="15" fill="${color}"/>
+<circle cx="348" cy="261" r="13" fill="#ffffff"/>
+</svg>`;
+
+let manifestUrl: string | null = null;
+
+/**
+ * 按主题色更新浏览器主题色与应用清单，安装到主屏幕时图标与启动画面使用当前主题色。
+ */
+export const applyAppTheme = (color: string) => {
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', color);
+  const link = document.querySelector<HTMLLinkElement>('link[rel="manifest"]');
+  if (!link) return;
+  // 清单改用 blob 地址后，其中的路径须为绝对地址
+  const base = new URL('./', window.location.href).href;
+  const icon = `data:image/svg+xml,${encodeURIComponent(appIconSvg(color))}`;
+  const manifest = {
+    id: base,
+    name: '资产 - 极简资产整理与预算管理',
+    short_name: '资产',
+    start_url: base,
+    scope: base,
+    display: 'standalone',
+    background_color: '#f8fafc',
+    theme_color: color,
+    lang: 'zh-CN',
+    icons: [
+      { src: icon, sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: icon, sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+      { src: new URL('icons/icon-192.png', base).href, sizes: '192x192', type: 'image/png' },
+      { src: new URL('icons/icon-512.png', base).href, sizes: '512x512', type: 'image/png' }
+    ]
+  };
+  if (manifestUrl) URL.revokeObjectURL(manifestUrl);
+  manifestUrl = URL.createObjectURL(new Blob([JSON.stringify(manifest)], { type: 'application/manifest+json' }));
+  link.href = manifestUrl;
+};
+
+/**
+ * 发送系统通知：优先经已注册的 service worker 发送（Android Chrome 不允许在页面中直接构造 Notification），
+ * 没有 service worker 时才直接构造，失败只记录日志。
+ */
+export const showNotification = async (title: string, body: string) => {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration().catch(() => undefined) : undefined;
+  if (registration) {
+    await registration.showNotification(title, { body, icon: 'icons/icon-192.png' }).catch(e => console.error('Notification failed:', e));
+    return;
+  }
+  try {
+    new Notification(title, { body });
+  } catch (e) {
+    console.error('Notification failed:', e);
+  }
+};
+
+/**
+ * 把待提醒的还款交给 service worker：到期的立即提醒，其余在后台定期同步时检查。
+ * 页面尚未由 service worker 控制（开发环境、首次打开）时返回 false，由调用方经 showNotification 发送。
+ */
+export const scheduleReminders = (reminders: ReminderNotice[]) => {
+  const controller = typeof navigator !== 'undefined' && 'serviceWorker' in navigator ? navigator.serviceWorker.controller : null;
+  if (!controller) return false;
+  controller.postMessage({ type: 'REMINDERS', reminders });
+  navigator.serviceWorker.ready
+    .then(registration => (registration as PeriodicSyncRegistration).periodicSync?.register(REMINDER_TAG, { minInterval: REMINDER_INTERVAL_MS }))
+    .catch(() => undefined);
+  return true;
+};
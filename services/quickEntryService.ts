@@ -0,0 +1,129 @@
+import { Budget } from "../types";
+import { TOTAL_BUDGET_CATEGORY } from "./budgetService";
+import { ADJUSTMENT_NOTE } from "./ledgerService";
+
+export interface ParsedQuickEntry {
+  text: string;
+  amount: number | null;
+  date: Date;
+  note: string;
+  budgetIndex: number | null;
+}
+
+// 系统生成的默认备注不参与关键词学习
+const GENERIC_NOTES = new Set(['快速记录', '补录账单', ADJUSTMENT_NOTE]);
+const WEEKDAYS = '日一二三四五六天';
+// 学到的关键词至少这么长才按包含匹配，避免 "饭"、"车" 之类的单字命中无关的备注
+const MIN_KEYWORD_LENGTH = 2;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+const addDays = (d: Date, days: number) => {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// 识别并移除文本中的日期描述，返回剩余文本与解析出的日期
+const extractDate = (text: string, now: Date): { rest: string; date: Date } => {
+  const today = startOfDay(now);
+  const relative: [RegExp, number][] = [[/大前天/, -3], [/前天/, -2], [/昨天|昨日/, -1], [/今天|今日/, 0]];
+  for (const [re, offset] of relative) {
+    if (re.test(text)) return { rest: text.replace(re, ' '), date: addDays(today, offset) };
+  }
+
+  const weekday = text.match(/(?:周|星期)([日一二三四五六天])/);
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[1]) % 7;
+    const back = (today.getDay() - target + 7) % 7;
+    return { rest: text.replace(weekday[0], ' '), date: addDays(today, -back) };
+  }
+
+  const md = text.match(/(\d{1,2})月(\d{1,2})[日号]?/) || text.match(/(?:^|\s)(\d{1,2})[/-](\d{1,2})(?=\s|$)/);
+  if (md) {
+    let date = new Date(today.getFullYear(), Number(md[1]) - 1, Number(md[2]));
+    // 未写年份且日期在未来时，视为去年
+    if (date > today) date = new Date(today.getFullYear() - 1, Number(md[1]) - 1, Number(md[2]));
+    return { rest: text.replace(md[0], ' '), date };
+  }
+
+  return { rest: text, date: today };
+};
+
+/**
+ * 从历史流水备注中学习 "关键词 → 预算" 规则，同一关键词取出现次数最多的预算。
+ */
+export const buildKeywordRules = (budgets: Budget[]): Map<string, number> => {
+  const counts = new Map<string, Map<number, number>>();
+  budgets.forEach((b, index) => {
+    if (b.category === TOTAL_BUDGET_CATEGORY) return;
+    const notes = [...(b.transactions || []), ...(b.history || []).flatMap(r => r.transactions)].map(t => t.note?.trim());
+    notes.forEach(note => {
+      if (!note || GENERIC_NOTES.has(note)) return;
+      note.split(/\s+/).filter(w => w.length > 0).forEach(word => {
+        const perBudget = counts.get(word) || new Map<number, number>();
+        perBudget.set(index, (perBudget.get(index) || 0) + 1);
+        counts.set(word, perBudget);
+      });
+    });
+  });
+  const rules = new Map<string, number>();
+  counts.forEach((perBudget, word) => {
+    const [best] = Array.from(perBudget.entries()).sort((a, b) => b[1] - a[1]);
+    rules.set(word, best[0]);
+  });
+  return rules;
+};
+
+const matchBudget = (tokens: string[], note: string, budgets: Budget[], rules: Map<string, number>): number | null => {
+  const candidates = budgets
+    .map((b, index) => ({ b, index }))
+    .filter(({ b }) => b.category !== TOTAL_BUDGET_CATEGORY);
+
+  // 1. 显式写出的子项目名或分类名
+  for (const token of tokens) {
+    const bySub = candidates.find(({ b }) => b.subCategory === token);
+    if (bySub) return bySub.index;
+  }
+  for (const token of tokens) {
+    const byCategory = candidates.find(({ b }) => b.category === token);
+    if (byCategory) return byCategory.index;
+  }
+
+  // 2. 从历史备注学到的关键词，优先匹配更长的关键词；过短的关键词只在整词相同时匹配
+  const keywords = Array.from(rules.keys()).sort((a, b) => b.length - a.length);
+  const hit = keywords.find(k => k.length >= MIN_KEYWORD_LENGTH ? note.includes(k) : tokens.includes(k));
+  if (hit !== undefined) return rules.get(hit)!;
+
+  // 3. 备注中包含子项目名
+  const byContains = candidates.find(({ b }) => b.subCategory && note.includes(b.subCategory));
+  return byContains ? byContains.index : null;
+};
+
+/**
+ * 按关键词规则为一段备注文本匹配预算，供账单导入等场景复用。
+ */
+export const matchBudgetForNote = (note: string, budgets: Budget[], rules: Map<string, number>): number | null =>
+  matchBudget(note.split(/\s+/).filter(Boolean), note, budgets, rules);
+
+/**
+ * 解析如 "午饭 35"、"昨天 打车 28.5 交通" 的一句话记账。
+ */
+export const parseQuickEntry = (text: string, budgets: Budget[], now = new Date()): ParsedQuickEntry => {
+  const { rest, date } = extractDate(text.trim(), now);
+
+  const amounts = Array.from(rest.matchAll(/(\d+(?:\.\d+)?)\s*(?:元|块)?/g));
+  const last = amounts[amounts.length - 1];
+  const amount = last ? parseFloat(last[1]) : null;
+  const withoutAmount = last ? rest.slice(0, last.index) + ' ' + rest.slice(last.index! + last[0].length) : rest;
+
+  const tokens = withoutAmount.split(/\s+/).filter(Boolean);
+  const budgetIndex = matchBudget(tokens, tokens.join(' '), budgets, buildKeywordRules(budgets));
+
+  // 作为分类提示写出的词不计入备注
+  const hintNames = budgetIndex !== null ? [budgets[budgetIndex].subCategory, budgets[budgetIndex].category] : [];
+  const noteTokens = tokens.filter(t => !hintNames.includes(t));
+  const note = noteTokens.join(' ') || tokens.join(' ');
+
+  return { text, amount, date, note, budgetIndex };
+};
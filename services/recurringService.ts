@@ -0,0 +1,152 @@
+import { Asset, Budget, RecurrenceFrequency, RecurrenceOverride, RecurringOccurrence, RecurringRule } from "../types";
+import { addTransactions, toTransactionTimestamp } from "./ledgerService";
+import { mergeHistoryPoints } from "./snapshotService";
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: '每天',
+  weekly: '每周',
+  monthly: '每月',
+  yearly: '每年'
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: '天',
+  weekly: '周',
+  monthly: '个月',
+  yearly: '年'
+};
+
+// 单条规则一次最多补出的期数，防止起始日期填错时生成海量记录
+const MAX_CATCH_UP = 400;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const parseDateKey = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const describeRule = (rule: Pick<RecurringRule, 'frequency' | 'interval'>) =>
+  rule.interval > 1 ? `每 ${rule.interval} ${FREQUENCY_UNITS[rule.frequency]}` : FREQUENCY_LABELS[rule.frequency];
+
+// 第 n 期（从 0 开始）的日期：按月/年重复时遇到小月或平年取月末
+const nthOccurrence = (rule: RecurringRule, n: number): string => {
+  const start = parseDateKey(rule.startDate);
+  const step = n * Math.max(1, rule.interval);
+  if (rule.frequency === 'daily' || rule.frequency === 'weekly') {
+    const days = rule.frequency === 'daily' ? step : step * 7;
+    return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + days));
+  }
+  const first = new Date(start.getFullYear(), start.getMonth() + (rule.frequency === 'monthly' ? step : step * 12), 1);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return toDateKey(new Date(first.getFullYear(), first.getMonth(), Math.min(start.getDate(), lastDay)));
+};
+
+/**
+ * after 之后（不含）到 until（含）之间的各期日期，超过结束日期的不再生成；limit 限制返回的期数。
+ */
+export const getOccurrenceDates = (rule: RecurringRule, after: string | undefined, until: string, limit = Infinity): string[] => {
+  const dates: string[] = [];
+  const end = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  for (let n = 0; dates.length < limit; n++) {
+    const date = nthOccurrence(rule, n);
+    if (date > end) break;
+    if (!after || date > after) dates.push(date);
+  }
+  return dates;
+};
+
+export const findOverride = (rule: RecurringRule, date: string): RecurrenceOverride | undefined =>
+  rule.overrides?.find(o => o.date === date);
+
+const toOccurrence = (rule: RecurringRule, date: string): RecurringOccurrence => ({
+  id: `${rule.id}|${date}`,
+  ruleId: rule.id,
+  date,
+  amount: findOverride(rule, date)?.amount ?? rule.amount
+});
+
+export interface DueOccurrences {
+  rules: RecurringRule[]; // 已更新 lastRun
+  due: RecurringOccurrence[]; // 直接生成
+  missed: RecurringOccurrence[]; // 进入补记列表
+  dropped: { name: string; count: number }[]; // 超出补记上限、未生成的更早期数
+}
+
+/**
+ * 打开应用时检查各规则：每条规则最近到期的一期直接生成，更早错过的各期进入补记列表，被跳过的期数不生成。
+ * 每条规则最多保留最近 MAX_CATCH_UP 期，更早的期数记入 dropped 供调用方提示。
+ */
+export const collectDueOccurrences = (rules: RecurringRule[], today = toDateKey(new Date())): DueOccurrences => {
+  const due: RecurringOccurrence[] = [];
+  const missed: RecurringOccurrence[] = [];
+  const dropped: DueOccurrences['dropped'] = [];
+  const next = rules.map(rule => {
+    const dates = getOccurrenceDates(rule, rule.lastRun, today);
+    if (dates.length === 0) return rule;
+    if (dates.length > MAX_CATCH_UP) dropped.push({ name: rule.name, count: dates.length - MAX_CATCH_UP });
+    const occurrences = dates
+      .slice(-MAX_CATCH_UP)
+      .filter(date => !findOverride(rule, date)?.skip)
+      .map(date => toOccurrence(rule, date));
+    if (occurrences.length > 0) {
+      due.push(occurrences[occurrences.length - 1]);
+      missed.push(...occurrences.slice(0, -1));
+    }
+    // 已处理过的例外不再需要保留
+    return { ...rule, lastRun: today, overrides: rule.overrides?.filter(o => o.date > today) };
+  });
+  return { rules: next, due, missed, dropped };
+};
+
+export const occurrenceTransactionId = (occurrence: RecurringOccurrence) => `rec-${occurrence.ruleId}-${occurrence.date}`;
+
+const findBudgetIndex = (budgets: Budget[], rule: RecurringRule) =>
+  budgets.findIndex(b => b.category === rule.category && (b.subCategory || '') === (rule.subCategory || ''));
+
+const hasTransaction = (budget: Budget, id: string) =>
+  (budget.transactions || []).some(t => t.id === id) || (budget.history || []).some(r => r.transactions.some(t => t.id === id));
+
+/**
+ * 将各期写入对应预算的流水，往月的期数记入当月的历史记录；目标预算已不存在的跳过，已生成过的（同 id）不重复写入。
+ */
+export const applyOccurrencesToBudgets = (budgets: Budget[], rules: RecurringRule[], occurrences: RecurringOccurrence[]): Budget[] => {
+  const entries = occurrences.flatMap(o => {
+    const rule = rules.find(r => r.id === o.ruleId);
+    if (!rule || rule.target !== 'budget') return [];
+    const budgetIndex = findBudgetIndex(budgets, rule);
+    const id = occurrenceTransactionId(o);
+    if (budgetIndex < 0 || hasTransaction(budgets[budgetIndex], id)) return [];
+    return [{ budgetIndex, transaction: { id, amount: o.amount, date: toTransactionTimestamp(parseDateKey(o.date)), note: rule.name } }];
+  });
+  return entries.length > 0 ? addTransactions(budgets, entries) : budgets;
+};
+
+/**
+ * 资产类规则按金额增减数值并记为今日数据点；持仓类资产的市值由份额推导，不受影响。
+ */
+export const applyOccurrencesToAssets = (
+  assets: Asset[],
+  rules: RecurringRule[],
+  occurrences: RecurringOccurrence[],
+  today = new Date().toISOString().split('T')[0]
+): Asset[] => {
+  const deltas = new Map<string, number>();
+  occurrences.forEach(o => {
+    const rule = rules.find(r => r.id === o.ruleId);
+    if (rule?.target === 'asset' && rule.assetId) deltas.set(rule.assetId, (deltas.get(rule.assetId) || 0) + o.amount);
+  });
+  if (deltas.size === 0) return assets;
+  return assets.map(a => {
+    const delta = deltas.get(a.id);
+    if (delta === undefined || a.holding) return a;
+    const value = round(a.value + delta);
+    return { ...a, value, history: mergeHistoryPoints(a.history, [{ date: today, value }]), lastUpdated: new Date().toLocaleDateString('zh-CN') };
+  });
+};
+
+export const isRuleTargetMissing = (rule: RecurringRule, budgets: Budget[], assets: Asset[]) =>
+  rule.target === 'budget' ? findBudgetIndex(budgets, rule) < 0 : !assets.some(a => a.id === rule.assetId);
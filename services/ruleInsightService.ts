@@ -0,0 +1,75 @@
+import { AIInsight, AssetCategory, CategoryRiskNote, FinancialSnapshot, InsightAction } from "../types";
+
+const CASH_CATEGORIES: string[] = [AssetCategory.THIRD_PARTY, AssetCategory.BANK];
+
+const riskRank = (level: string) => level === '高' ? 2 : level === '中' ? 1 : 0;
+
+/**
+ * 不依赖模型的确定性分析：按固定阈值检查负债率、资产走势与预算执行情况。
+ */
+export const getRuleBasedInsights = (snapshot: FinancialSnapshot): AIInsight => {
+  const categoryRisks: CategoryRiskNote[] = [];
+  const actions: Omit<InsightAction, 'priority'>[] = [];
+  const pct = (n: number) => `${(n * 100).toFixed(0)}%`;
+
+  let overall = snapshot.liabilityRatio > 0.5 ? '高' : snapshot.liabilityRatio > 0.2 ? '中' : '低';
+  if (snapshot.liabilityRatio > 0.2) {
+    actions.push({ action: '优先偿还高负债', reason: `负债占总资产 ${pct(snapshot.liabilityRatio)}` });
+  }
+
+  snapshot.liabilities.forEach(l => {
+    if (!l.targetValue) return;
+    const usage = l.value / l.targetValue;
+    if (usage > 0.8) {
+      categoryRisks.push({ category: l.name, riskLevel: '高', note: `已使用额度 ${pct(usage)}，接近上限` });
+      actions.push({ action: `降低「${l.name}」负债`, reason: `额度使用率 ${pct(usage)}` });
+    } else if (l.durationMonths) {
+      const monthly = Math.ceil(l.value / l.durationMonths);
+      categoryRisks.push({ category: l.name, riskLevel: '低', note: `按 ${l.durationMonths} 个月计划，每月需偿还约 ¥${monthly.toLocaleString()}` });
+    }
+  });
+
+  snapshot.categories.forEach(c => {
+    if (c.category === AssetCategory.LIABILITY) return;
+    if (c.change90dPercent <= -10) {
+      categoryRisks.push({ category: c.category, riskLevel: '中', note: `近 90 天下降 ${Math.abs(c.change90dPercent).toFixed(1)}%` });
+      actions.push({ action: `复盘「${c.category}」的持仓`, reason: `近 90 天减少 ¥${Math.abs(c.change90d).toLocaleString()}` });
+    }
+  });
+
+  const cash = snapshot.categories.filter(c => CASH_CATEGORIES.includes(c.category)).reduce((sum, c) => sum + c.value, 0);
+  const cashShare = snapshot.totalAssets > 0 ? cash / snapshot.totalAssets : 0;
+  if (cashShare > 0.6) {
+    actions.push({ action: '将部分闲置现金转入理财或基金', reason: `现金类资产占比 ${pct(cashShare)}` });
+  } else if (snapshot.totalAssets > 0 && cashShare < 0.1) {
+    categoryRisks.push({ category: '流动性', riskLevel: '中', note: `现金类资产仅占 ${pct(cashShare)}` });
+    actions.push({ action: '预留 3-6 个月生活费作为应急资金', reason: '流动资金偏少' });
+  }
+
+  const overspent = snapshot.budgets.filter(b => b.overspend > 0);
+  overspent.forEach(b => {
+    categoryRisks.push({ category: b.subCategory || b.category, riskLevel: '中', note: `本月超支 ¥${b.overspend.toLocaleString()}` });
+  });
+  if (overspent.length > 0) {
+    actions.push({ action: '控制超支预算项的支出', reason: overspent.map(b => b.subCategory || b.category).join('、') });
+    if (overall === '低') overall = '中';
+  }
+  snapshot.budgets.filter(b => b.overspend === 0 && b.utilisation >= 0.9).forEach(b => {
+    categoryRisks.push({ category: b.subCategory || b.category, riskLevel: '低', note: `预算已使用 ${pct(b.utilisation)}` });
+  });
+
+  // 整体风险不低于任一分项的风险
+  categoryRisks.forEach(r => {
+    if (riskRank(r.riskLevel) > riskRank(overall)) overall = r.riskLevel;
+  });
+
+  const prioritised = actions.map((a, i) => ({ ...a, priority: i + 1 }));
+  return {
+    summary: `净资产 ¥${snapshot.netWorth.toLocaleString()}，负债率 ${pct(snapshot.liabilityRatio)}，现金类占比 ${pct(cashShare)}${overspent.length > 0 ? `，${overspent.length} 项预算超支` : ''}。`,
+    suggestions: prioritised.length > 0 ? prioritised.map(a => a.action) : ['保持理性的投资心态', '定期回顾资产状况'],
+    riskLevel: overall,
+    categoryRisks,
+    actions: prioritised,
+    isOffline: true
+  };
+};
@@ -0,0 +1,81 @@
+import { Asset, AssetCategory, Budget, FinancialSnapshot, HistoryPoint } from "../types";
+import { TOTAL_BUDGET_CATEGORY } from "./budgetService";
+import { parseHistoryDate } from "./historyService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 取 time 之前最近一次记录的数值；在此之前没有记录时返回 undefined
+export const valueAt = (history: HistoryPoint[], time: number): number | undefined => {
+  let best: HistoryPoint | undefined;
+  let bestTime = -Infinity;
+  for (const h of history) {
+    const t = parseHistoryDate(h.date);
+    if (!isNaN(t) && t <= time && t > bestTime) {
+      best = h;
+      bestTime = t;
+    }
+  }
+  return best?.value;
+};
+
+/**
+ * 把数据点按日期合并进历史：同日覆盖，整体按日期升序，补录的往日数据不会被追加到末尾。
+ */
+export const mergeHistoryPoints = (history: HistoryPoint[], points: HistoryPoint[]): HistoryPoint[] => {
+  const byDate = new Map(history.map(h => [h.date, h]));
+  points.forEach(p => byDate.set(p.date, p));
+  return Array.from(byDate.values()).sort((a, b) => parseHistoryDate(a.date) - parseHistoryDate(b.date));
+};
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * 汇总资产、负债与预算，生成提交给分析模型的结构化财务快照。
+ */
+export const buildFinancialSnapshot = (assets: Asset[], budgets: Budget[], now = new Date()): FinancialSnapshot => {
+  const isLiability = (a: Asset) => a.category === AssetCategory.LIABILITY;
+  const totalAssets = assets.filter(a => !isLiability(a)).reduce((sum, a) => sum + a.value, 0);
+  const totalLiabilities = assets.filter(isLiability).reduce((sum, a) => sum + a.value, 0);
+
+  const since = now.getTime() - 90 * DAY_MS;
+  const byCategory = new Map<string, { value: number; past: number }>();
+  assets.forEach(a => {
+    const entry = byCategory.get(a.category) || { value: 0, past: 0 };
+    entry.value += a.value;
+    entry.past += valueAt(a.history, since) ?? a.history[0]?.value ?? a.value;
+    byCategory.set(a.category, entry);
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    netWorth: totalAssets - totalLiabilities,
+    totalAssets,
+    totalLiabilities,
+    liabilityRatio: totalAssets > 0 ? round(totalLiabilities / totalAssets, 4) : 0,
+    categories: Array.from(byCategory.entries()).map(([category, { value, past }]) => ({
+      category,
+      value,
+      change90d: round(value - past),
+      change90dPercent: past !== 0 ? round((value - past) / Math.abs(past) * 100) : 0
+    })),
+    liabilities: assets.filter(isLiability).map(a => ({
+      name: a.name,
+      value: a.value,
+      targetValue: a.targetValue,
+      durationMonths: a.durationMonths,
+      notes: a.notes
+    })),
+    budgets: budgets.filter(b => b.category !== TOTAL_BUDGET_CATEGORY).map(b => {
+      const available = b.monthlyAmount + b.carryOver;
+      return {
+        category: b.category,
+        subCategory: b.subCategory,
+        monthlyAmount: b.monthlyAmount,
+        carryOver: b.carryOver,
+        spent: b.spentThisMonth,
+        utilisation: available > 0 ? round(b.spentThisMonth / available, 4) : 0,
+        overspend: Math.max(0, b.spentThisMonth - available)
+      };
+    })
+  };
+};
@@ -0,0 +1,475 @@
+import {
+  Asset, AuditEntry, Budget, CachedAIInsight, ChartAnnotation, ExchangeRate, HistoryPoint, LLMSettings, PendingEntry,
+  RecurringOccurrence, RecurringRule, SavingsGoal, SyncMeta, SyncSettings, Transaction, Transfer
+} from "../types";
+import { parseHistoryDate } from "./historyService";
+import { EncryptedPayload, LockConfig, createLock, decryptJson, encryptJson, unlockWithPassphrase } from "./cryptoService";
+
+// 除资产与预算外的其余持久化数据，键名与值类型一一对应
+export interface StoredSettings {
+  budgetCategoryList: string[];
+  assetCategoryList: string[];
+  categoryColors: Record<string, string>;
+  llmSettings: Partial<LLMSettings>;
+  pendingEntries: PendingEntry[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  savingsGoals: SavingsGoal[];
+  recurringRules: RecurringRule[];
+  recurringQueue: RecurringOccurrence[];
+  transfers: Transfer[];
+  chartAnnotations: ChartAnnotation[];
+  aiInsightCache: CachedAIInsight;
+  themeColor: string;
+  autoTheme: boolean;
+  smallCardMode: boolean;
+  budgetPeriod: string;
+  notifiedReminders: string[];
+  auditLog: AuditEntry[];
+  syncSettings: SyncSettings | null;
+  syncMeta: SyncMeta;
+  privacyMode: boolean;
+}
+
+export type SettingKey = keyof StoredSettings;
+
+/**
+ * 数据仓库：打开时一次性读入内存，读取为同步；写入只提交与上次保存相比发生变化的记录。
+ */
+export interface FinanceRepository {
+  readonly backend: 'indexeddb' | 'localStorage';
+  getAssets(): Asset[] | undefined;
+  getBudgets(): Budget[] | undefined;
+  get<K extends SettingKey>(key: K): StoredSettings[K] | undefined;
+  saveAssets(assets: Asset[]): void;
+  saveBudgets(budgets: Budget[]): void;
+  set<K extends SettingKey>(key: K, value: StoredSettings[K]): void;
+  isEncrypted(): boolean;
+  /** 设置、修改或（传入 null）移除启动口令，并按新的方式重写全部数据 */
+  setPassphrase(passphrase: string | null, assets: Asset[], budgets: Budget[]): Promise<void>;
+}
+
+/**
+ * 已加密的数据仓库，输入口令解锁后才能读取。
+ */
+export interface LockedRepository {
+  unlock(passphrase: string): Promise<FinanceRepository>;
+}
+
+// 旧版直接写在 localStorage 中的键；localStorage 后备仓库继续沿用这些键
+const ASSETS_KEY = 'assets_data';
+const BUDGETS_KEY = 'budget_data';
+const LEGACY_KEYS: Record<SettingKey, string> = {
+  budgetCategoryList: 'budget_category_list',
+  assetCategoryList: 'asset_category_list',
+  categoryColors: 'category_colors_map',
+  llmSettings: 'llm_settings',
+  pendingEntries: 'quick_entry_queue',
+  exchangeRates: 'fx_rates',
+  baseCurrency: 'base_currency',
+  savingsGoals: 'savings_goals',
+  recurringRules: 'recurring_rules',
+  recurringQueue: 'recurring_queue',
+  transfers: 'transfers',
+  chartAnnotations: 'chart_annotations',
+  aiInsightCache: 'ai_insight_cache',
+  themeColor: 'app_theme',
+  autoTheme: 'auto_theme',
+  smallCardMode: 'small_card_mode',
+  budgetPeriod: 'budget_period',
+  notifiedReminders: 'notified_reminders',
+  auditLog: 'audit_log',
+  syncSettings: 'sync_settings',
+  syncMeta: 'sync_meta',
+  privacyMode: 'privacy_mode'
+};
+
+// 旧数据中有直接写入的原始字符串（如主题色、本位币），无法按 JSON 解析时原样返回；损坏的数据不阻断启动
+const readLocal = (key: string): unknown => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(key);
+  } catch {
+    return undefined;
+  }
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+const writeLocal = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key}:`, e);
+  }
+};
+
+const asArray = <T>(value: unknown): T[] | undefined => Array.isArray(value) ? value : undefined;
+
+const createLocalStorageRepository = (): FinanceRepository => ({
+  backend: 'localStorage',
+  getAssets: () => asArray<Asset>(readLocal(ASSETS_KEY)),
+  getBudgets: () => asArray<Budget>(readLocal(BUDGETS_KEY)),
+  get: <K extends SettingKey>(key: K) => readLocal(LEGACY_KEYS[key]) as StoredSettings[K] | undefined,
+  saveAssets: assets => writeLocal(ASSETS_KEY, assets),
+  saveBudgets: budgets => writeLocal(BUDGETS_KEY, budgets),
+  set: (key, value) => writeLocal(LEGACY_KEYS[key], value),
+  isEncrypted: () => false,
+  setPassphrase: () => Promise.reject(new Error('当前浏览器不支持 IndexedDB，无法加密存储'))
+});
+
+// ---- IndexedDB ----
+
+const DB_NAME = 'finance_db';
+const DB_VERSION = 1;
+const STORES = {
+  assets: 'assets', // keyPath id，不含 history
+  history: 'history', // keyPath [assetId, date]
+  budgets: 'budgets', // keyPath position，不含当月 transactions
+  transactions: 'transactions', // keyPath [budgetIndex, id]
+  settings: 'settings', // 键为 SettingKey
+  meta: 'meta' // schemaVersion、lock、assetsSaved、budgetsSaved
+} as const;
+
+// 资产 / 预算是否保存过：保存过的空列表读回 []，从未保存过（全新数据库）才读回 undefined 以使用示例数据
+const SAVED_FLAGS = { assets: 'assetsSaved', budgets: 'budgetsSaved' } as const;
+
+// 加密后各表仍需明文保存的主键字段；设置表使用外部键
+const KEY_FIELDS: Record<string, string[]> = {
+  [STORES.assets]: ['id'],
+  [STORES.history]: ['assetId', 'date'],
+  [STORES.budgets]: ['position'],
+  [STORES.transactions]: ['budgetIndex', 'id'],
+  [STORES.settings]: []
+};
+
+type AssetRecord = Omit<Asset, 'history'> & { position: number };
+type HistoryRecord = HistoryPoint & { assetId: string };
+type BudgetRecord = Omit<Budget, 'transactions'> & { position: number };
+type TransactionRecord = Transaction & { budgetIndex: number };
+
+type WriteOp = { store: string; value: unknown; key?: IDBValidKey } | { store: string; remove: IDBValidKey };
+
+interface LoadedData {
+  assets?: Asset[];
+  budgets?: Budget[];
+  settings: Partial<StoredSettings>;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // 表结构随 DB_VERSION 升级；数据层面的迁移见 MIGRATIONS
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORES.assets)) db.createObjectStore(STORES.assets, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.history)) {
+      db.createObjectStore(STORES.history, { keyPath: ['assetId', 'date'] }).createIndex('assetId', 'assetId');
+    }
+    if (!db.objectStoreNames.contains(STORES.budgets)) db.createObjectStore(STORES.budgets, { keyPath: 'position' });
+    if (!db.objectStoreNames.contains(STORES.transactions)) db.createObjectStore(STORES.transactions, { keyPath: ['budgetIndex', 'id'] });
+    if (!db.objectStoreNames.contains(STORES.settings)) db.createObjectStore(STORES.settings);
+    if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB upgrade blocked'));
+});
+
+const splitAsset = ({ history, ...rest }: Asset, position: number): AssetRecord => ({ ...rest, position });
+const splitBudget = ({ transactions, ...rest }: Budget, position: number): BudgetRecord => ({ ...rest, position });
+
+const allDataOps = (assets: Asset[] | undefined, budgets: Budget[] | undefined, settings: Partial<StoredSettings>): WriteOp[] => [
+  ...(assets || []).flatMap((a, i) => [
+    { store: STORES.assets, value: splitAsset(a, i) },
+    ...(a.history || []).map(h => ({ store: STORES.history, value: { ...h, assetId: a.id } }))
+  ]),
+  ...(budgets || []).flatMap((b, i) => [
+    { store: STORES.budgets, value: splitBudget(b, i) },
+    ...(b.transactions || []).map(t => ({ store: STORES.transactions, value: { ...t, budgetIndex: i } }))
+  ]),
+  ...(Object.keys(settings) as SettingKey[]).map(key => ({ store: STORES.settings, value: settings[key], key }))
+];
+
+const applyOp = (tx: IDBTransaction, op: WriteOp, value?: unknown) => {
+  const store = tx.objectStore(op.store);
+  if ('remove' in op) store.delete(op.remove);
+  else if (op.key === undefined) store.put(value);
+  else store.put(value, op.key);
+};
+
+const putAllData = (tx: IDBTransaction, assets: Asset[] | undefined, budgets: Budget[] | undefined, settings: Partial<StoredSettings>) =>
+  allDataOps(assets, budgets, settings).forEach(op => applyOp(tx, op, 'value' in op ? op.value : undefined));
+
+// 加密记录只保留主键字段，其余内容（金额、名称、备注等）放入 sealed；meta 表不加密
+const seal = async (key: CryptoKey | null, op: WriteOp) => {
+  if (!('value' in op) || !key || !KEY_FIELDS[op.store]) return 'value' in op ? op.value : undefined;
+  const record = op.value as Record<string, unknown>;
+  const sealed: { sealed: EncryptedPayload } & Record<string, unknown> = { sealed: await encryptJson(key, record) };
+  KEY_FIELDS[op.store].forEach(field => { sealed[field] = record[field]; });
+  return sealed;
+};
+
+const unseal = <T>(key: CryptoKey | null, value: unknown): Promise<T> | T =>
+  key && typeof value === 'object' && value !== null && 'sealed' in value
+    ? decryptJson<T>(key, (value as { sealed: EncryptedPayload }).sealed)
+    : value as T;
+
+// 数据迁移，键为迁移后的版本号；每次在同一事务内执行并记录版本
+const MIGRATIONS: Record<number, { run: (tx: IDBTransaction) => void; after?: () => void }> = {
+  // v1：从旧版 localStorage 键导入全部数据，事务完成后再删除旧键
+  1: {
+    run: tx => {
+      const settings: Partial<StoredSettings> = {};
+      (Object.keys(LEGACY_KEYS) as SettingKey[]).forEach(key => {
+        const value = readLocal(LEGACY_KEYS[key]);
+        if (value !== undefined) (settings as Record<string, unknown>)[key] = value;
+      });
+      const assets = asArray<Asset>(readLocal(ASSETS_KEY));
+      const budgets = asArray<Budget>(readLocal(BUDGETS_KEY));
+      putAllData(tx, assets, budgets, settings);
+      if (assets) tx.objectStore(STORES.meta).put(true, SAVED_FLAGS.assets);
+      if (budgets) tx.objectStore(STORES.meta).put(true, SAVED_FLAGS.budgets);
+    },
+    after: () => {
+      try {
+        [ASSETS_KEY, BUDGETS_KEY, ...Object.values(LEGACY_KEYS)].forEach(key => localStorage.removeItem(key));
+      } catch {
+        // 旧键清理失败不影响使用
+      }
+    }
+  }
+};
+const SCHEMA_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+const runMigrations = async (db: IDBDatabase) => {
+  const current: number = (await promisify(db.transaction(STORES.meta).objectStore(STORES.meta).get('schemaVersion'))) || 0;
+  for (let version = current + 1; version <= SCHEMA_VERSION; version++) {
+    const tx = db.transaction(Object.values(STORES), 'readwrite');
+    MIGRATIONS[version].run(tx);
+    tx.objectStore(STORES.meta).put(version, 'schemaVersion');
+    await completion(tx);
+    MIGRATIONS[version].after?.();
+  }
+};
+
+const loadAll = async (db: IDBDatabase, key: CryptoKey | null): Promise<LoadedData> => {
+  const tx = db.transaction(Object.values(STORES));
+  const getAll = <T>(store: string) => promisify(tx.objectStore(store).getAll()).then(values => Promise.all(values.map(v => unseal<T>(key, v))));
+  const meta = tx.objectStore(STORES.meta);
+  const [assetRecords, historyRecords, budgetRecords, transactionRecords, settingKeys, settingValues, assetsSaved, budgetsSaved] = await Promise.all([
+    getAll<AssetRecord>(STORES.assets),
+    getAll<HistoryRecord>(STORES.history),
+    getAll<BudgetRecord>(STORES.budgets),
+    getAll<TransactionRecord>(STORES.transactions),
+    promisify(tx.objectStore(STORES.settings).getAllKeys()),
+    getAll<unknown>(STORES.settings),
+    promisify(meta.get(SAVED_FLAGS.assets)),
+    promisify(meta.get(SAVED_FLAGS.budgets))
+  ]);
+
+  const historyByAsset = new Map<string, HistoryPoint[]>();
+  historyRecords.forEach(({ assetId, ...point }) => {
+    const points = historyByAsset.get(assetId);
+    if (points) points.push(point);
+    else historyByAsset.set(assetId, [point]);
+  });
+  const transactionsByBudget = new Map<number, Transaction[]>();
+  transactionRecords.forEach(({ budgetIndex, ...t }) => {
+    const transactions = transactionsByBudget.get(budgetIndex);
+    if (transactions) transactions.push(t);
+    else transactionsByBudget.set(budgetIndex, [t]);
+  });
+
+  const settings: Partial<StoredSettings> = {};
+  settingKeys.forEach((key, i) => { (settings as Record<string, unknown>)[String(key)] = settingValues[i]; });
+
+  return {
+    assets: assetRecords.length === 0 && !assetsSaved ? undefined : assetRecords
+      .sort((a, b) => a.position - b.position)
+      .map(({ position, ...a }) => ({
+        ...a,
+        history: (historyByAsset.get(a.id) || []).sort((x, y) => parseHistoryDate(x.date) - parseHistoryDate(y.date))
+      })),
+    budgets: budgetRecords.length === 0 && !budgetsSaved ? undefined : budgetRecords
+      .sort((a, b) => a.position - b.position)
+      .map(({ position, ...b }) => ({
+        ...b,
+        transactions: (transactionsByBudget.get(position) || []).sort((x, y) => new Date(y.date).getTime() - new Date(x.date).getTime())
+      })),
+    settings
+  };
+};
+
+const createIndexedDBRepository = (db: IDBDatabase, loaded: LoadedData, initialKey: CryptoKey | null): FinanceRepository => {
+  let key = initialKey;
+  let assetsSaved = loaded.assets !== undefined;
+  let budgetsSaved = loaded.budgets !== undefined;
+  // 上次写入的内容，按序列化结果比较，只提交有变化的记录
+  const assetJson = new Map<string, string>();
+  const assetHistory = new Map<string, Map<string, number>>();
+  const budgetJson = new Map<number, string>();
+  const budgetTransactions = new Map<number, Map<string, string>>();
+  const settingValues = new Map<string, unknown>();
+
+  const rememberAsset = (a: Asset, position: number) => {
+    assetJson.set(a.id, JSON.stringify(splitAsset(a, position)));
+    assetHistory.set(a.id, new Map(a.history.map(h => [h.date, h.value])));
+  };
+  const rememberBudget = (b: Budget, position: number) => {
+    budgetJson.set(position, JSON.stringify(splitBudget(b, position)));
+    budgetTransactions.set(position, new Map((b.transactions || []).map(t => [t.id, JSON.stringify(t)])));
+  };
+  loaded.assets?.forEach(rememberAsset);
+  loaded.budgets?.forEach(rememberBudget);
+  Object.entries(loaded.settings).forEach(([key, value]) => settingValues.set(key, value));
+
+  // 加密是异步的，写入排队依次执行，保证先提交的修改先落盘
+  let queue = Promise.resolve();
+  const write = (ops: WriteOp[]) => {
+    queue = queue
+      .then(() => Promise.all(ops.map(op => seal(key, op))))
+      .then(values => {
+        const tx = db.transaction(Array.from(new Set(ops.map(op => op.store))), 'readwrite');
+        ops.forEach((op, i) => applyOp(tx, op, values[i]));
+        return completion(tx);
+      })
+      .catch(e => console.error('IndexedDB write failed:', e));
+  };
+
+  return {
+    backend: 'indexeddb',
+    getAssets: () => loaded.assets,
+    getBudgets: () => loaded.budgets,
+    get: <K extends SettingKey>(name: K) => settingValues.get(name) as StoredSettings[K] | undefined,
+
+    saveAssets: assets => {
+      const ops: WriteOp[] = [];
+      if (!assetsSaved) {
+        ops.push({ store: STORES.meta, value: true, key: SAVED_FLAGS.assets });
+        assetsSaved = true;
+      }
+      const ids = new Set(assets.map(a => a.id));
+      assets.forEach((a, position) => {
+        const json = JSON.stringify(splitAsset(a, position));
+        if (assetJson.get(a.id) !== json) ops.push({ store: STORES.assets, value: JSON.parse(json) });
+        const previous = assetHistory.get(a.id) || new Map<string, number>();
+        const dates = new Set(a.history.map(h => h.date));
+        a.history.forEach(h => {
+          if (previous.get(h.date) !== h.value) ops.push({ store: STORES.history, value: { ...h, assetId: a.id } });
+        });
+        previous.forEach((_, date) => {
+          if (!dates.has(date)) ops.push({ store: STORES.history, remove: [a.id, date] });
+        });
+        rememberAsset(a, position);
+      });
+      Array.from(assetJson.keys()).filter(id => !ids.has(id)).forEach(id => {
+        assetHistory.get(id)?.forEach((_, date) => ops.push({ store: STORES.history, remove: [id, date] }));
+        ops.push({ store: STORES.assets, remove: id });
+        assetJson.delete(id);
+        assetHistory.delete(id);
+      });
+      if (ops.length > 0) write(ops);
+    },
+
+    saveBudgets: budgets => {
+      const ops: WriteOp[] = [];
+      if (!budgetsSaved) {
+        ops.push({ store: STORES.meta, value: true, key: SAVED_FLAGS.budgets });
+        budgetsSaved = true;
+      }
+      budgets.forEach((b, position) => {
+        const json = JSON.stringify(splitBudget(b, position));
+        if (budgetJson.get(position) !== json) ops.push({ store: STORES.budgets, value: JSON.parse(json) });
+        const previous = budgetTransactions.get(position) || new Map<string, string>();
+        const ids = new Set((b.transactions || []).map(t => t.id));
+        (b.transactions || []).forEach(t => {
+          if (previous.get(t.id) !== JSON.stringify(t)) ops.push({ store: STORES.transactions, value: { ...t, budgetIndex: position } });
+        });
+        previous.forEach((_, id) => {
+          if (!ids.has(id)) ops.push({ store: STORES.transactions, remove: [position, id] });
+        });
+        rememberBudget(b, position);
+      });
+      // 预算被删除后，多出的位置连同其流水一并清除
+      Array.from(budgetJson.keys()).filter(position => position >= budgets.length).forEach(position => {
+        budgetTransactions.get(position)?.forEach((_, id) => ops.push({ store: STORES.transactions, remove: [position, id] }));
+        ops.push({ store: STORES.budgets, remove: position });
+        budgetJson.delete(position);
+        budgetTransactions.delete(position);
+      });
+      if (ops.length > 0) write(ops);
+    },
+
+    set: (name, value) => {
+      if (settingValues.get(name) === value) return;
+      settingValues.set(name, value);
+      write([{ store: STORES.settings, value, key: name }]);
+    },
+
+    isEncrypted: () => key !== null,
+
+    // 清空后在同一事务内按新密钥（或明文）重写全部记录，中途失败时保持原状
+    setPassphrase: (passphrase, assets, budgets) => {
+      const ops = allDataOps(assets, budgets, Object.fromEntries(settingValues) as Partial<StoredSettings>);
+      assetJson.clear();
+      assetHistory.clear();
+      budgetJson.clear();
+      budgetTransactions.clear();
+      assets.forEach(rememberAsset);
+      budgets.forEach(rememberBudget);
+      const task = queue.then(async () => {
+        const lock = passphrase ? await createLock(passphrase) : null;
+        const values = await Promise.all(ops.map(op => seal(lock?.key || null, op)));
+        const tx = db.transaction(Object.values(STORES), 'readwrite');
+        Object.keys(KEY_FIELDS).forEach(store => tx.objectStore(store).clear());
+        ops.forEach((op, i) => applyOp(tx, op, values[i]));
+        if (lock) tx.objectStore(STORES.meta).put(lock.config, 'lock');
+        else tx.objectStore(STORES.meta).delete('lock');
+        await completion(tx);
+        key = lock?.key || null;
+      });
+      queue = task.catch(() => undefined);
+      return task;
+    }
+  };
+};
+
+/**
+ * 打开数据仓库：优先使用 IndexedDB 并执行待完成的迁移；浏览器不支持或打开失败时退回 localStorage。
+ * 设置了启动口令时返回 LockedRepository，解锁后才读入数据。
+ */
+export const openRepository = async (): Promise<FinanceRepository | LockedRepository> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageRepository();
+  try {
+    const db = await openDatabase();
+    await runMigrations(db);
+    const lock: LockConfig | undefined = await promisify(db.transaction(STORES.meta).objectStore(STORES.meta).get('lock'));
+    if (lock) {
+      return {
+        unlock: async passphrase => {
+          const key = await unlockWithPassphrase(lock, passphrase);
+          return createIndexedDBRepository(db, await loadAll(db, key), key);
+        }
+      };
+    }
+    return createIndexedDBRepository(db, await loadAll(db, null), null);
+  } catch (e) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', e);
+    return createLocalStorageRepository();
+  }
+};
@@ -0,0 +1,392 @@
+import { Asset, BackupData, Budget, SyncCollection, SyncMeta, SyncRecord, SyncSettings, Transaction } from "../types";
+import { TOTAL_BUDGET_CATEGORY, syncTotalBudget } from "./budgetService";
+import { setBudgetTransactions } from "./ledgerService";
+import { mergeHistoryPoints } from "./snapshotService";
+
+/**
+ * 家庭同步客户端：资产、预算、流水各自拆成独立记录，按记录版本推送与拉取。
+ * 流水是独立记录，两台设备各自新增的流水互不冲突；编辑与删除冲突时保留编辑，不会静默丢失流水。
+ */
+
+export const EMPTY_SYNC_META: SyncMeta = { cursor: 0, versions: {}, hashes: {}, dirtySince: {} };
+// 推送被拒（期间对方又有修改）时重新合并的最多次数
+const MAX_PUSH_ATTEMPTS = 3;
+
+type BudgetRecordData = Omit<Budget, 'transactions'> & { order: number };
+type TransactionRecordData = Transaction & { budgetId: string };
+
+interface LocalRecord {
+  collection: SyncCollection;
+  id: string;
+  data: unknown;
+}
+
+// 本地需要应用的变更：deleted 为 true 时删除该记录
+export interface RecordUpdate {
+  collection: SyncCollection;
+  id: string;
+  deleted?: boolean;
+  data?: unknown;
+}
+
+export interface PushChange extends RecordUpdate {
+  baseVersion: number;
+  updatedAt: number;
+}
+
+export interface SyncResult {
+  meta: SyncMeta;
+  updates: RecordUpdate[];
+  notes: string[]; // 冲突处理说明，写入操作记录
+  devices: string[]; // 本次拉取到的修改来自哪些设备
+}
+
+const recordKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+// FNV-1a 摘要，只用于判断记录自上次同步后是否变化
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+const hashData = (data: unknown) => hashText(JSON.stringify(data));
+
+/**
+ * 把资产与预算拆成同步记录；总计预算的流水由分类汇总，不单独同步。
+ */
+export const toSyncRecords = (assets: Asset[], budgets: Budget[]): Map<string, LocalRecord> => {
+  const records = new Map<string, LocalRecord>();
+  assets.forEach(a => records.set(recordKey('assets', a.id), { collection: 'assets', id: a.id, data: a }));
+  budgets.forEach((b, order) => {
+    if (!b.id) return;
+    const { transactions, ...rest } = b;
+    records.set(recordKey('budgets', b.id), { collection: 'budgets', id: b.id, data: { ...rest, order } as BudgetRecordData });
+    if (b.category === TOTAL_BUDGET_CATEGORY) return;
+    (transactions || []).forEach(t => {
+      records.set(recordKey('transactions', t.id), { collection: 'transactions', id: t.id, data: { ...t, budgetId: b.id } as TransactionRecordData });
+    });
+  });
+  return records;
+};
+
+/**
+ * 记录本机开始修改各记录的时间：与上次同步的摘要不同且尚未标记的记录记为当前时间。
+ */
+export const trackLocalChanges = (meta: SyncMeta, assets: Asset[], budgets: Budget[], now = Date.now()): SyncMeta => {
+  const records = toSyncRecords(assets, budgets);
+  const dirtySince = { ...meta.dirtySince };
+  let changed = false;
+  const mark = (key: string) => {
+    if (dirtySince[key]) return;
+    dirtySince[key] = now;
+    changed = true;
+  };
+  records.forEach((r, key) => {
+    if (meta.hashes[key] !== hashData(r.data)) mark(key);
+  });
+  Object.keys(meta.hashes).forEach(key => {
+    if (!records.has(key)) mark(key);
+  });
+  return changed ? { ...meta, dirtySince } : meta;
+};
+
+interface Side {
+  deleted: boolean;
+  data?: unknown;
+  updatedAt: number;
+  label: string;
+}
+
+const describeRecord = (collection: SyncCollection, data: unknown) => {
+  if (!data) return collection;
+  if (collection === 'assets') return `账户「${(data as Asset).name}」`;
+  if (collection === 'budgets') {
+    const budget = data as Budget;
+    return `预算「${budget.subCategory || budget.category}」`;
+  }
+  const transaction = data as Transaction;
+  return `流水「${transaction.note || ''} ${transaction.amount}」`;
+};
+
+/**
+ * 双方都修改了同一条记录：编辑总是优先于删除；都为编辑时以较晚的修改为准，
+ * 资产的历史数据点合并保留（同一天以较晚的一方为准）。
+ */
+export const resolveConflict = (collection: SyncCollection, local: Side, remote: Side): { deleted: boolean; data?: unknown; note?: string } => {
+  if (local.deleted && remote.deleted) return { deleted: true };
+  if (local.deleted || remote.deleted) {
+    const kept = local.deleted ? remote : local;
+    const deleter = local.deleted ? local : remote;
+    return { deleted: false, data: kept.data, note: `${deleter.label}删除了${describeRecord(collection, kept.data)}，但${kept.label}同时做了修改，已保留` };
+  }
+  if (JSON.stringify(local.data) === JSON.stringify(remote.data)) return { deleted: false, data: remote.data };
+  const [winner, loser] = local.updatedAt >= remote.updatedAt ? [local, remote] : [remote, local];
+  let data = winner.data;
+  if (collection === 'assets') {
+    const w = winner.data as Asset;
+    const l = loser.data as Asset;
+    data = { ...w, history: mergeHistoryPoints(l.history || [], w.history || []) };
+  }
+  return { deleted: false, data, note: `${describeRecord(collection, winner.data)}双方同时修改，采用${winner.label}较晚的修改` };
+};
+
+const request = async <T>(settings: SyncSettings, path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+        ...init.headers
+      }
+    });
+  } catch {
+    throw new Error('无法连接同步服务器');
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `同步服务器返回 ${response.status}`);
+  return body as T;
+};
+
+export const fetchSyncStatus = (settings: SyncSettings) =>
+  request<{ seq: number; records: number }>(settings, '/sync/status');
+
+const fetchChanges = (settings: SyncSettings, since: number) =>
+  request<{ seq: number; records: SyncRecord[] }>(settings, `/sync/changes?since=${since}`);
+
+const pushChanges = (settings: SyncSettings, changes: PushChange[]) =>
+  request<{ seq: number; accepted: { collection: SyncCollection; id: string; version: number }[]; conflicts: SyncRecord[] }>(
+    settings, '/sync/push', { method: 'POST', body: JSON.stringify({ device: settings.deviceName, changes }) }
+  );
+
+/**
+ * 把记录变更应用到资产与预算上；流水按 budgetId 归入预算并重新计算本月支出。
+ */
+export const applyRecordUpdates = (assets: Asset[], budgets: Budget[], updates: RecordUpdate[]): { assets: Asset[]; budgets: Budget[] } => {
+  if (updates.length === 0) return { assets, budgets };
+  const byCollection = (collection: SyncCollection) => updates.filter(u => u.collection === collection);
+
+  let nextAssets = assets;
+  byCollection('assets').forEach(u => {
+    const exists = nextAssets.some(a => a.id === u.id);
+    if (u.deleted) nextAssets = nextAssets.filter(a => a.id !== u.id);
+    else if (exists) nextAssets = nextAssets.map(a => a.id === u.id ? u.data as Asset : a);
+    else nextAssets = [...nextAssets, u.data as Asset];
+  });
+
+  const budgetUpdates = byCollection('budgets');
+  const transactionUpdates = byCollection('transactions');
+  if (budgetUpdates.length === 0 && transactionUpdates.length === 0) return { assets: nextAssets, budgets };
+
+  // 先按 id 汇总现有流水，再应用流水记录的增删改（含在预算间移动）
+  const transactions = new Map<string, TransactionRecordData>();
+  budgets.forEach(b => {
+    if (b.category === TOTAL_BUDGET_CATEGORY) return;
+    (b.transactions || []).forEach(t => transactions.set(t.id, { ...t, budgetId: b.id }));
+  });
+  transactionUpdates.forEach(u => {
+    if (u.deleted) transactions.delete(u.id);
+    else transactions.set(u.id, u.data as TransactionRecordData);
+  });
+
+  let records = budgets.map((b, order) => ({ budget: b, order }));
+  budgetUpdates.forEach(u => {
+    if (u.deleted) {
+      records = records.filter(r => r.budget.id !== u.id);
+      return;
+    }
+    const { order, ...data } = u.data as BudgetRecordData;
+    const index = records.findIndex(r => r.budget.id === u.id);
+    const budget = { ...(index >= 0 ? records[index].budget : {}), ...data } as Budget;
+    if (index >= 0) records[index] = { budget, order };
+    else records.push({ budget: { ...budget, transactions: [] }, order });
+  });
+
+  const grouped = new Map<string, Transaction[]>();
+  transactions.forEach(({ budgetId, ...t }) => grouped.set(budgetId, [...(grouped.get(budgetId) || []), t]));
+  const nextBudgets = records
+    .sort((a, b) => a.order - b.order)
+    .map(({ budget }) => budget.category === TOTAL_BUDGET_CATEGORY ? budget : setBudgetTransactions(budget, grouped.get(budget.id) || []));
+  return { assets: nextAssets, budgets: syncTotalBudget(nextBudgets) };
+};
+
+const hashesOf = (records: Map<string, LocalRecord>) => {
+  const hashes: Record<string, string> = {};
+  records.forEach((r, key) => { hashes[key] = hashData(r.data); });
+  return hashes;
+};
+
+/**
+ * 同步一次：拉取对方的修改，与本机修改合并后推送；推送被拒时基于服务器的最新版本重新合并。
+ * 返回需要应用到本机的变更与新的同步状态。
+ */
+export const runSync = async (settings: SyncSettings, meta: SyncMeta, assets: Asset[], budgets: Budget[]): Promise<SyncResult> => {
+  const now = Date.now();
+  const pulled = await fetchChanges(settings, meta.cursor);
+  const local = toSyncRecords(assets, budgets);
+  const versions = { ...meta.versions };
+  const updates = new Map<string, RecordUpdate>();
+  const outgoing = new Map<string, PushChange>();
+  const notes: string[] = [];
+  const devices = new Set<string>();
+
+  const localSide = (key: string): Side => ({
+    deleted: !local.has(key),
+    data: local.get(key)?.data,
+    updatedAt: meta.dirtySince[key] || now,
+    label: '本机'
+  });
+  const remoteSide = (r: SyncRecord): Side => ({ deleted: !!r.deleted, data: r.data, updatedAt: r.updatedAt, label: r.updatedBy || '对方' });
+  const isDirty = (key: string) => {
+    const record = local.get(key);
+    return record ? meta.hashes[key] !== hashData(record.data) : key in meta.hashes;
+  };
+
+  // 对方的修改：本机未改动则直接采用，否则合并
+  const remoteKeys = new Set<string>();
+  pulled.records.forEach(r => {
+    const key = recordKey(r.collection, r.id);
+    if (r.version <= (versions[key] || 0)) return; // 本机推送的记录回流
+    remoteKeys.add(key);
+    if (r.updatedBy) devices.add(r.updatedBy);
+    versions[key] = r.version;
+    if (!isDirty(key)) {
+      updates.set(key, { collection: r.collection, id: r.id, deleted: r.deleted, data: r.data });
+      return;
+    }
+    const merged = resolveConflict(r.collection, localSide(key), remoteSide(r));
+    if (merged.note) notes.push(merged.note);
+    updates.set(key, { collection: r.collection, id: r.id, ...merged });
+    // 合并结果与服务器一致时无需再推送
+    if (merged.deleted === !!r.deleted && JSON.stringify(merged.data) === JSON.stringify(r.data)) return;
+    outgoing.set(key, { collection: r.collection, id: r.id, ...merged, baseVersion: r.version, updatedAt: now });
+  });
+
+  // 本机的修改
+  const dirtyKeys = new Set([...local.keys(), ...Object.keys(meta.hashes)]);
+  dirtyKeys.forEach(key => {
+    if (remoteKeys.has(key) || !isDirty(key)) return;
+    const record = local.get(key);
+    const [collection, ...rest] = key.split(':');
+    outgoing.set(key, {
+      collection: collection as SyncCollection,
+      id: rest.join(':'),
+      deleted: !record,
+      data: record?.data,
+      baseVersion: versions[key] || 0,
+      updatedAt: meta.dirtySince[key] || now
+    });
+  });
+
+  // 对方删除了预算，但本机仍有归属于它的流水：保留预算，避免流水失去归属
+  updates.forEach((u, key) => {
+    if (u.collection !== 'budgets' || !u.deleted) return;
+    const orphan = Array.from(local.values()).some(r => r.collection === 'transactions' && (r.data as TransactionRecordData).budgetId === u.id
+      && !updates.get(recordKey('transactions', r.id))?.deleted);
+    if (!orphan || !local.has(key)) return;
+    const data = local.get(key).data;
+    notes.push(`${describeRecord('budgets', data)}已被对方删除，但其中还有流水，已保留`);
+    updates.set(key, { collection: 'budgets', id: u.id, data });
+    outgoing.set(key, { collection: 'budgets', id: u.id, data, baseVersion: versions[key], updatedAt: now });
+  });
+
+  // 本机删除了预算，而对方同时在其中记了流水：撤回本机对该预算的删除，从服务器取回预算
+  const liveBudgets = new Set(Array.from(local.values()).filter(r => r.collection === 'budgets').map(r => r.id));
+  updates.forEach(u => {
+    if (u.collection === 'budgets') u.deleted ? liveBudgets.delete(u.id) : liveBudgets.add(u.id);
+  });
+  const orphaned = new Set<string>();
+  updates.forEach(u => {
+    if (u.collection === 'transactions' && !u.deleted && !liveBudgets.has((u.data as TransactionRecordData).budgetId)) {
+      orphaned.add((u.data as TransactionRecordData).budgetId);
+    }
+  });
+  if (orphaned.size > 0) {
+    const all = await fetchChanges(settings, 0);
+    orphaned.forEach(id => {
+      const record = all.records.find(r => r.collection === 'budgets' && r.id === id);
+      // 双方都已删除时流水仍保存在服务器上，只是不在本机显示
+      if (!record || record.deleted) return;
+      const key = recordKey('budgets', id);
+      outgoing.delete(key);
+      updates.set(key, { collection: 'budgets', id, data: record.data });
+      versions[key] = record.version;
+      notes.push(`${describeRecord('budgets', record.data)}在本机被删除，但对方同时在其中记了流水，已恢复`);
+    });
+  }
+
+  let pending = Array.from(outgoing.values());
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    if (attempt >= MAX_PUSH_ATTEMPTS) throw new Error('同步冲突过多，请稍后重试');
+    const result = await pushChanges(settings, pending);
+    result.accepted.forEach(a => { versions[recordKey(a.collection, a.id)] = a.version; });
+    pending = result.conflicts.map(r => {
+      const key = recordKey(r.collection, r.id);
+      const change = outgoing.get(key);
+      if (r.updatedBy) devices.add(r.updatedBy);
+      const merged = resolveConflict(r.collection, { deleted: !!change.deleted, data: change.data, updatedAt: change.updatedAt, label: '本机' }, remoteSide(r));
+      if (merged.note) notes.push(merged.note);
+      versions[key] = r.version;
+      updates.set(key, { collection: r.collection, id: r.id, ...merged });
+      const next = { ...change, ...merged, baseVersion: r.version, updatedAt: now };
+      outgoing.set(key, next);
+      return next;
+    });
+  }
+
+  // 摘要按"同步开始时的数据 + 本次变更"计算，同步期间本机的新修改仍会被识别为未同步
+  const merged = applyRecordUpdates(assets, budgets, Array.from(updates.values()));
+  return {
+    meta: {
+      cursor: pulled.seq,
+      versions,
+      hashes: hashesOf(toSyncRecords(merged.assets, merged.budgets)),
+      dirtySince: {},
+      lastSyncedAt: new Date().toISOString()
+    },
+    updates: Array.from(updates.values()),
+    notes,
+    devices: Array.from(devices)
+  };
+};
+
+/**
+ * 首次连接：服务器为空时用本机备份数据初始化；否则取回服务器上的全部记录，替换本机的资产与预算。
+ */
+export const connectSync = async (settings: SyncSettings, backup: BackupData): Promise<{ meta: SyncMeta; seeded: boolean; assets?: Asset[]; budgets?: Budget[] }> => {
+  const status = await fetchSyncStatus(settings);
+  if (status.records === 0) {
+    const seeded = await request<{ seq: number; records: { collection: SyncCollection; id: string; version: number }[] }>(
+      settings, '/sync/seed', { method: 'POST', body: JSON.stringify(backup), headers: { 'X-Sync-Device': encodeURIComponent(settings.deviceName) } }
+    );
+    return {
+      seeded: true,
+      meta: {
+        ...EMPTY_SYNC_META,
+        cursor: seeded.seq,
+        versions: Object.fromEntries(seeded.records.map(r => [recordKey(r.collection, r.id), r.version])),
+        hashes: hashesOf(toSyncRecords(backup.assets, backup.budgets)),
+        lastSyncedAt: new Date().toISOString()
+      }
+    };
+  }
+  const pulled = await fetchChanges(settings, 0);
+  const live = pulled.records.filter(r => !r.deleted);
+  const { assets, budgets } = applyRecordUpdates([], [], live);
+  return {
+    seeded: false,
+    assets,
+    budgets,
+    meta: {
+      ...EMPTY_SYNC_META,
+      cursor: pulled.seq,
+      versions: Object.fromEntries(pulled.records.map(r => [recordKey(r.collection, r.id), r.version])),
+      hashes: hashesOf(toSyncRecords(assets, budgets)),
+      lastSyncedAt: new Date().toISOString()
+    }
+  };
+};
@@ -0,0 +1,54 @@
+import { Asset, AssetCategory, ExchangeRate, Transfer } from "../types";
+import { BASE_CURRENCY, convert } from "./fxService";
+import { mergeHistoryPoints } from "./snapshotService";
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// 负债账户的余额方向相反：转入即还款，余额减少；转出即借款或刷卡，余额增加
+const directionOf = (asset: Asset) => asset.category === AssetCategory.LIABILITY ? -1 : 1;
+
+// 持仓类账户的市值由份额 × 净值推导，不能直接转入转出
+export const canTransfer = (asset: Asset) => !asset.holding;
+
+export const getTransferToAmount = (from: Asset, to: Asset, amount: number, rates: ExchangeRate[], date?: string) =>
+  round(convert(amount, from.currency || BASE_CURRENCY, to.currency || BASE_CURRENCY, rates, date));
+
+/**
+ * 校验转账，返回错误提示；无误时返回 null。
+ */
+export const validateTransfer = (assets: Asset[], transfer: Omit<Transfer, 'id' | 'date'>): string | null => {
+  const from = assets.find(a => a.id === transfer.fromId);
+  const to = assets.find(a => a.id === transfer.toId);
+  if (!from || !to) return '请选择转出和转入账户';
+  if (from.id === to.id) return '转出和转入不能是同一个账户';
+  if (!canTransfer(from) || !canTransfer(to)) return '持仓类账户请通过买入 / 卖出记录变动';
+  if (!(transfer.amount > 0)) return '请输入转账金额';
+  if ((transfer.fee || 0) < 0) return '手续费不能为负数';
+  if (directionOf(from) > 0 && transfer.amount + (transfer.fee || 0) > from.value + 0.005) return `${from.name} 余额不足`;
+  return null;
+};
+
+/**
+ * 执行（direction = 1）或撤销（direction = -1）一笔转账：两个账户在同一次更新中修改，并各记一个当日数据点。
+ */
+export const applyTransfer = (assets: Asset[], transfer: Transfer, direction: 1 | -1 = 1, today = new Date().toISOString().split('T')[0]): Asset[] =>
+  assets.map(a => {
+    let delta = 0;
+    if (a.id === transfer.fromId) delta -= transfer.amount + (transfer.fee || 0);
+    if (a.id === transfer.toId) delta += transfer.toAmount;
+    if (delta === 0) return a;
+    const value = round(a.value + delta * directionOf(a) * direction);
+    return { ...a, value, history: mergeHistoryPoints(a.history, [{ date: today, value }]), lastUpdated: new Date().toLocaleDateString('zh-CN') };
+  });
+
+// 按历史数据点的日期归组，便于在历史列表中展示当日的转账
+export const groupTransfersByDate = (transfers: Transfer[], assetId: string): Map<string, Transfer[]> => {
+  const groups = new Map<string, Transfer[]>();
+  transfers
+    .filter(t => t.fromId === assetId || t.toId === assetId)
+    .forEach(t => {
+      const date = t.date.split('T')[0];
+      groups.set(date, [...(groups.get(date) || []), t]);
+    });
+  return groups;
+};
@@ -24,6 +24,54 @@ export interface HistoryPoint {
   value: number;
 }
 
+export type HoldingEventType = 'buy' | 'sell' | 'dividend';
+
+export interface HoldingEvent {
+  id: string;
+  type: HoldingEventType;
+  date: string; // YYYY-MM-DD
+  units: number; // 买入/卖出份额；红利再投资的份额，现金分红为 0
+  price: number; // 成交净值
+  fee?: number;
+  amount?: number; // 分红金额
+}
+
+// 基金、理财的持仓明细：市值 = 份额 × 最新净值
+export interface Holding {
+  code?: string;
+  nav: number;
+  navHistory: HistoryPoint[];
+  events: HoldingEvent[];
+}
+
+// 还款方式：等额本息 / 等额本金 / 先息后本 / 信用卡最低还款
+export type RepaymentMethod = 'annuity' | 'equal-principal' | 'interest-only' | 'minimum';
+
+export interface LoanPayment {
+  period: number;
+  principal: number;
+  interest: number;
+  paidAt: string; // ISO 时间
+}
+
+export interface Loan {
+  principal: number;
+  annualRate: number; // 年利率 %
+  termMonths: number;
+  method: RepaymentMethod;
+  dueDay: number; // 每月还款日
+  startDate: string; // 放款日 YYYY-MM-DD，首期在次月还款日
+  minimumPercent?: number; // 最低还款比例 %，仅 minimum 使用
+  payments: LoanPayment[];
+}
+
+export interface CreditCard {
+  statementDay: number; // 账单日
+  dueDay: number; // 还款日
+  creditLimit: number;
+  reminderDays: number; // 到期前几天提醒
+}
+
 export interface Asset {
   id: string;
   name: string;
@@ -37,6 +85,56 @@ export interface Asset {
   color?: string;
   history: HistoryPoint[];
   notes?: string;
+  holding?: Holding;
+  loan?: Loan;
+  creditCard?: CreditCard;
+}
+
+// 汇率：1 单位 currency 折合多少人民币，date 为生效日期 YYYY-MM-DD
+export interface ExchangeRate {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+// 账户间转账：一次操作同时修改两个账户，两边的历史记录都关联到这条转账
+export interface Transfer {
+  id: string;
+  fromId: string;
+  toId: string;
+  amount: number; // 转出金额，按转出账户币种
+  toAmount: number; // 到账金额，按转入账户币种
+  fee?: number; // 手续费，由转出账户承担
+  date: string; // ISO 时间
+  note?: string;
+}
+
+// 净资产曲线上的一个数据点，附带分类与各账户构成
+export interface NetWorthPoint {
+  date: string;
+  time: number;
+  value: number; // 净资产
+  assets: number;
+  liabilities: number;
+  categories: Record<string, number>; // 负债类别记为正数
+  contributors: { id: string; name: string; category: string; value: number }[];
+}
+
+// 用户在净资产曲线上标注的事件，如 "买车"、"年终奖"
+export interface ChartAnnotation {
+  id: string;
+  date: string; // YYYY-MM-DD
+  label: string;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number; // 以本位币计
+  targetDate: string; // YYYY-MM-DD
+  assetIds: string[];
+  color?: string;
+  createdAt: string;
 }
 
 export interface Transaction {
@@ -46,19 +144,216 @@ export interface Transaction {
   note?: string;
 }
 
+// 一句话记账未能匹配到预算或金额时进入待确认队列
+export interface PendingEntry {
+  id: string;
+  text: string;
+  amount?: number;
+  date: string; // ISO 日期
+  note: string;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// 单期例外：跳过或改写某一期的金额
+export interface RecurrenceOverride {
+  date: string; // 该期原定日期 YYYY-MM-DD
+  skip?: boolean;
+  amount?: number;
+}
+
+// 周期规则：到期后生成预算流水（budget），或按金额增减资产数值（asset）
+export interface RecurringRule {
+  id: string;
+  name: string;
+  target: 'budget' | 'asset';
+  category?: string; // target 为 budget 时按 分类/项目 匹配预算
+  subCategory?: string;
+  assetId?: string;
+  amount: number; // 资产为增减额，负数表示减少
+  frequency: RecurrenceFrequency;
+  interval: number; // 每隔几个周期
+  startDate: string; // 首期日期 YYYY-MM-DD，按月/年重复时沿用其日期
+  endDate?: string;
+  lastRun?: string; // 已处理到的日期（含）
+  overrides?: RecurrenceOverride[];
+}
+
+// 错过的周期进入补记列表，由用户确认、改金额或跳过
+export interface RecurringOccurrence {
+  id: string; // ruleId|date
+  ruleId: string;
+  date: string;
+  amount: number;
+}
+
+// 月末结转方式：full 结余与超支都结转，surplus 仅结转结余，none 不结转
+export type RolloverMode = 'full' | 'surplus' | 'none';
+
+export interface BudgetMonthRecord {
+  month: string; // YYYY-MM
+  monthlyAmount: number;
+  spent: number;
+  carryOver: number; // 当月初的结转额
+  transactions: Transaction[];
+}
+
 export interface Budget {
+  id?: string; // 同步时用于识别同一预算，旧数据在 migrateBudgets 中补全
   category: string; 
   subCategory?: string;
   monthlyAmount: number;
   spentThisMonth: number;
   carryOver: number;
+  rollover?: RolloverMode; // 默认 full
   notes?: string;
   color?: string; // 增加自定义颜色支持
   transactions?: Transaction[]; // 增加流水明细
+  history?: BudgetMonthRecord[]; // 已结算月份归档
+}
+
+export interface CategoryRiskNote {
+  category: string;
+  riskLevel: string;
+  note: string;
+}
+
+export interface InsightAction {
+  priority: number; // 1 为最优先
+  action: string;
+  reason?: string;
 }
 
 export interface AIInsight {
   summary: string;
   suggestions: string[];
   riskLevel: string;
+  categoryRisks?: CategoryRiskNote[];
+  actions?: InsightAction[];
+  isOffline?: boolean; // 未能调用模型时返回的本地兜底建议
+}
+
+export interface CategorySnapshot {
+  category: string;
+  value: number;
+  change90d: number;
+  change90dPercent: number;
+}
+
+export interface LiabilitySnapshot {
+  name: string;
+  value: number;
+  targetValue?: number;
+  durationMonths?: number;
+  notes?: string;
+}
+
+export interface BudgetUtilisation {
+  category: string;
+  subCategory?: string;
+  monthlyAmount: number;
+  carryOver: number;
+  spent: number;
+  utilisation: number; // 已用 / (限额 + 结转)
+  overspend: number;
+}
+
+export interface FinancialSnapshot {
+  generatedAt: string;
+  netWorth: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  liabilityRatio: number; // 负债 / 总资产
+  categories: CategorySnapshot[];
+  liabilities: LiabilitySnapshot[];
+  budgets: BudgetUtilisation[];
+}
+
+export type LLMProviderKind = 'gemini' | 'openai' | 'rules';
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  endpoint: string; // 仅 openai 兼容服务使用
+  model: string;
+  apiKey: string;
+}
+
+export interface BackupData {
+  version: number;
+  exportedAt: string;
+  assets: Asset[];
+  budgets: Budget[];
+  budgetCategoryList: string[];
+  assetCategoryList: string[];
+  themeColor: string;
+  customCategoryColors: Record<string, string>;
+  exchangeRates?: ExchangeRate[];
+  baseCurrency?: string;
+  savingsGoals?: SavingsGoal[];
+  recurringRules?: RecurringRule[];
+  transfers?: Transfer[];
+  chartAnnotations?: ChartAnnotation[];
+}
+
+// 可撤销的财务数据：每次修改前后的快照只保存发生变化的部分
+export interface FinanceState {
+  assets: Asset[];
+  budgets: Budget[];
+  budgetCategoryList: string[];
+  assetCategoryList: string[];
+  customCategoryColors: Record<string, string>;
+  transfers: Transfer[];
+}
+
+export type AuditSource = 'manual' | 'recurring' | 'import' | 'restore' | 'system' | 'sync' | 'undo' | 'redo';
+
+export interface AuditChange {
+  target: string; // 账户、预算或分类名称
+  field: string; // 余额、预算额度、新增流水等
+  before?: string;
+  after?: string;
+}
+
+// 操作记录：只保存可读的变更明细，撤销所需的完整快照仅保留在内存中
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO 时间
+  action: string;
+  source: AuditSource;
+  changes: AuditChange[];
+}
+
+export type SyncCollection = 'assets' | 'budgets' | 'transactions';
+
+export interface SyncSettings {
+  serverUrl: string;
+  token: string;
+  deviceName: string; // 出现在对方的操作记录中
+}
+
+// 服务器上的一条记录：version 每次写入加一，seq 为全局递增的变更序号
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  version: number;
+  seq: number;
+  updatedAt: number;
+  updatedBy?: string;
+  deleted?: boolean;
+  data?: unknown;
+}
+
+// 本机同步状态：已知的服务器版本、上次同步时各记录的摘要，以及本机开始修改的时间（用于冲突裁决）
+export interface SyncMeta {
+  cursor: number;
+  versions: Record<string, number>;
+  hashes: Record<string, string>;
+  dirtySince: Record<string, number>;
+  lastSyncedAt?: string;
+}
+
+export interface CachedAIInsight {
+  insight: AIInsight;
+  generatedAt: string; // ISO 时间
 }
@@ -1,18 +1,50 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+const listFiles = (dir: string, prefix = ''): string[] => fs.existsSync(dir)
+  ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => entry.isDirectory()
+    ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+    : [`${prefix}${entry.name}`])
+  : [];
+
+// 构建完成后由 service-worker.js 生成 sw.js：注入预缓存列表、index.html 引用的 CDN 资源，以及随内容变化的版本号
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const outDir = options.dir || path.resolve(__dirname, 'dist');
+    const publicDir = path.resolve(__dirname, 'public');
+    const html = fs.readFileSync(path.join(outDir, 'index.html'), 'utf8');
+    const cdnUrls = Array.from(new Set(Array.from(html.matchAll(/<(?:script|link)\b[^>]*>/g), ([tag]) => tag)
+      .filter(tag => !/rel="preconnect"/.test(tag))
+      .map(tag => tag.match(/(?:src|href)="(https:\/\/[^"]+)"/)?.[1])
+      .filter(Boolean)));
+    const publicFiles = listFiles(publicDir);
+    const precacheUrls = [...Object.keys(bundle).filter(file => !file.endsWith('.map')), ...publicFiles];
+    const hash = createHash('sha256');
+    Object.values(bundle).forEach(file => hash.update(file.type === 'chunk' ? file.code : file.source));
+    publicFiles.forEach(file => hash.update(fs.readFileSync(path.join(publicDir, file))));
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+      .replace(`'__BUILD_VERSION__'`, JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace('[/* __PRECACHE_URLS__ */]', JSON.stringify(precacheUrls))
+      .replace('[/* __CDN_URLS__ */]', JSON.stringify(cdnUrls));
+    fs.writeFileSync(path.join(outDir, 'sw.js'), source);
+  }
+});
+
+export default defineConfig(({ command }) => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // 开发服务器不注册 service worker，避免缓存干扰热更新
+        __SERVICE_WORKER__: JSON.stringify(command === 'build'),
       },
       resolve: {
         alias: {